@@ -1,16 +1,56 @@
 
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { generatePromptsFromScript, generateImageFromPrompt } from './services/geminiService.ts';
-import type { ReferenceImage, AspectRatio } from './types.ts';
+import React, { useState, useCallback, useMemo, useEffect, useRef, useSyncExternalStore } from 'react';
+import { editImage, generateVariants, getImageProvider, getPromptProvider, listImageProviders, listPromptProviders, resolveEditModel, resolveImageModel } from './services/providerRegistry.ts';
+import { createJobQueue, type QueueEvent } from './services/jobQueue.ts';
+import { addEditedVersion, chooseVariant, createImageJob, createTemplateJob, isActiveJob, isRunnableJob, moveJob, selectVersion, updateJobPrompt, withCurrentVersion, MAX_VARIANTS } from './services/jobs.ts';
+import { blobToDataUrl, downloadBlob, fileToBase64, sha256Hex } from './services/fileUtils.ts';
+import { exportProjectZip, slugify, FILENAME_TOKENS } from './services/exportService.ts';
+import {
+    createEmptyProject, deleteProject, duplicateProject, getLastProjectId, listProjects, loadProject, saveProject, setLastProjectId,
+    DEFAULT_PROJECT_SETTINGS,
+} from './services/projectStore.ts';
+import ProjectBar from './components/ProjectBar.tsx';
+import PromptList from './components/PromptList.tsx';
+import ScriptHighlight from './components/ScriptHighlight.tsx';
+import VariantCompare from './components/VariantCompare.tsx';
+import ImageEditor from './components/ImageEditor.tsx';
+import GeminiAccessSettings from './components/GeminiAccessSettings.tsx';
+import OpenAiAccessSettings from './components/OpenAiAccessSettings.tsx';
+import { classifyError, ERROR_CATEGORY_LABELS, HALTING_CATEGORIES } from './services/generationErrors.ts';
+import UsagePanel from './components/UsagePanel.tsx';
+import PostProcessPanel from './components/PostProcessPanel.tsx';
+import PromptDensityControl from './components/PromptDensityControl.tsx';
+import BatchTemplateEditor from './components/BatchTemplateEditor.tsx';
+import StylePresetsPanel from './components/StylePresetsPanel.tsx';
+import StylePresetPreview from './components/StylePresetPreview.tsx';
+import StoryboardExportPanel from './components/StoryboardExportPanel.tsx';
+import { buildStoryboardHtml, exportStoryboardPdf, storyboardPanels } from './services/storyboard.ts';
+import TimelinePanel from './components/TimelinePanel.tsx';
+import SlideshowPreview from './components/SlideshowPreview.tsx';
+import { frameSpans, jobDurations, timelineAspectRatio, timelineFrames } from './services/timeline.ts';
+import type { Slide } from './services/slideshow.ts';
+import { jobFromMetadata, readGenerationMetadata } from './services/imageMetadata.ts';
+import { createStylePreset, loadStylePresets, presetModel, presetReferenceImage, saveStylePresets, PRESET_PREVIEW_COUNT } from './services/stylePresets.ts';
+import type { BatchItem } from './services/batchTemplate.ts';
+import { DEFAULT_CHUNK_OPTIONS, generateChunkedPrompts, type ChunkProgress } from './services/scriptChunker.ts';
+import { applyPostProcessing, overlayTextForJob, postProcessKey, processImage, processProjectImages, type ProcessedImage } from './services/postProcess.ts';
+import {
+    checkBudget, entriesForBudget, loadPriceTable, planImageUsage, savePriceTable, summarizeUsage, withMeteredRetry,
+    type PlannedUsage, type UsageMeter,
+} from './services/usageLedger.ts';
+import { importScript, SCRIPT_IMPORT_ACCEPT, type ImportedScript } from './services/scriptImport.ts';
+import CharacterLibrary from './components/CharacterLibrary.tsx';
+import { collectReferenceImages, matchCharacters, toCharacterNotes } from './services/characterLibrary.ts';
+import type {
+    ReferenceImage, AspectRatio, BudgetCap, CharacterEntry, BatchSettings, ImageJob, PostProcessSettings, PriceTable, PromptDensity, Project, ProjectSummary, RetryPolicy, StoryboardSettings, StylePreset, TimelineSettings, UsageEntry,
+} from './types.ts';
 
-type ImageJobStatus = 'pending' | 'generating' | 'success' | 'failed';
-
-interface ImageJob {
-  prompt: string;
-  status: ImageJobStatus;
-  src?: string;
-  error?: string;
+interface JobResult {
+  src: string;
+  variants: string[] | undefined;
+  generatedAt: number;
+  referenceHashes: string[];
 }
 
 // SVG Icons defined outside component to prevent re-creation on re-renders
@@ -40,25 +80,316 @@ const ClockIcon = () => (
 );
 
 
+const UNTITLED_PROJECT = 'Untitled project';
+
 const App: React.FC = () => {
+    const [initialProject] = useState(() => createEmptyProject(UNTITLED_PROJECT));
+    const [projectId, setProjectId] = useState<string>(initialProject.id);
+    const [projectName, setProjectName] = useState<string>(initialProject.name);
+    const [projectCreatedAt, setProjectCreatedAt] = useState<number>(initialProject.createdAt);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isHydrated, setIsHydrated] = useState<boolean>(false);
+    const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
     const [script, setScript] = useState<string>('');
-    const [styleKeywords, setStyleKeywords] = useState<string>('');
+    // The last imported file, whose scene headings apply while the script is left as imported.
+    const [importedScript, setImportedScript] = useState<ImportedScript | null>(null);
+    const [styleKeywords, setStyleKeywords] = useState<string>(DEFAULT_PROJECT_SETTINGS.styleKeywords);
+    const [negativePrompt, setNegativePrompt] = useState<string>(DEFAULT_PROJECT_SETTINGS.negativePrompt);
     const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
-    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+    const [characters, setCharacters] = useState<CharacterEntry[]>([]);
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_PROJECT_SETTINGS.aspectRatio);
     const [imageJobs, setImageJobs] = useState<ImageJob[]>([]);
     const [isLoadingPrompts, setIsLoadingPrompts] = useState<boolean>(false);
-    const [isLoadingImages, setIsLoadingImages] = useState<boolean>(false);
+    const [promptProgress, setPromptProgress] = useState<ChunkProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [imageGenerationProgress, setImageGenerationProgress] = useState(0);
-
-    const fileToBase64 = (file: File): Promise<string> =>
-      new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = (error) => reject(error);
-      });
-    
+    const [concurrency, setConcurrency] = useState<number>(DEFAULT_PROJECT_SETTINGS.concurrency);
+    const [requestsPerMinute, setRequestsPerMinute] = useState<number>(DEFAULT_PROJECT_SETTINGS.requestsPerMinute);
+    const [promptProviderId, setPromptProviderId] = useState<string>(DEFAULT_PROJECT_SETTINGS.promptProviderId);
+    const [promptModel, setPromptModel] = useState<string>(DEFAULT_PROJECT_SETTINGS.promptModel);
+    const [imageProviderId, setImageProviderId] = useState<string>(DEFAULT_PROJECT_SETTINGS.imageProviderId);
+    const [imageModel, setImageModel] = useState<string>(DEFAULT_PROJECT_SETTINGS.imageModel);
+    const [fileNamePattern, setFileNamePattern] = useState<string>(DEFAULT_PROJECT_SETTINGS.fileNamePattern);
+    const [variantCount, setVariantCount] = useState<number>(DEFAULT_PROJECT_SETTINGS.variantCount);
+    const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_PROJECT_SETTINGS.retryPolicy);
+    const [rewritingJobIds, setRewritingJobIds] = useState<Set<string>>(() => new Set());
+    const [includeAllVariants, setIncludeAllVariants] = useState(false);
+    const [embedMetadata, setEmbedMetadata] = useState(true);
+    const [includeTimelines, setIncludeTimelines] = useState(false);
+    const [compareJobId, setCompareJobId] = useState<string | null>(null);
+    const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+    const [editingJobId, setEditingJobId] = useState<string | null>(null);
+    const [characterFilter, setCharacterFilter] = useState<string>('');
+    const [locationFilter, setLocationFilter] = useState<string>('');
+    const [usage, setUsage] = useState<UsageEntry[]>([]);
+    const [budget, setBudget] = useState<BudgetCap>(DEFAULT_PROJECT_SETTINGS.budget);
+    const [prices, setPrices] = useState<PriceTable>(() => loadPriceTable());
+    const [runId, setRunId] = useState<string | null>(null);
+    const [postProcess, setPostProcess] = useState<PostProcessSettings>(DEFAULT_PROJECT_SETTINGS.postProcess);
+    const [density, setDensity] = useState<PromptDensity>(DEFAULT_PROJECT_SETTINGS.density);
+    const [inputMode, setInputMode] = useState<'script' | 'template'>(DEFAULT_PROJECT_SETTINGS.inputMode);
+    const [batch, setBatch] = useState<BatchSettings>(DEFAULT_PROJECT_SETTINGS.batch);
+    const [storyboard, setStoryboard] = useState<StoryboardSettings>(DEFAULT_PROJECT_SETTINGS.storyboard);
+    const [storyboardExport, setStoryboardExport] = useState<'html' | 'pdf' | null>(null);
+    const [timeline, setTimeline] = useState<TimelineSettings>(DEFAULT_PROJECT_SETTINGS.timeline);
+    const [slideshow, setSlideshow] = useState<Slide[] | null>(null);
+    const [stylePresets, setStylePresets] = useState<StylePreset[]>(() => loadStylePresets());
+    const [previewPreset, setPreviewPreset] = useState<StylePreset | null>(null);
+    // Processed hero images by job id. Derived from the originals, so they are not saved.
+    const [processedImages, setProcessedImages] = useState<Map<string, ProcessedImage>>(() => new Map());
+    const processedRef = useRef(processedImages);
+    processedRef.current = processedImages;
+
+    // The queue records usage and checks the budget outside of rendering, so it works from refs.
+    const usageRef = useRef<UsageEntry[]>([]);
+    const runIdRef = useRef<string | null>(null);
+    // Expected usage of queued jobs, and the ids of those that have started and count against the budget.
+    const plannedUsage = useRef(new Map<string, PlannedUsage>());
+    const reservedJobIds = useRef(new Set<string>());
+    const budgetCheck = useRef<(id: string) => string | null>(() => null);
+
+    const imageProvider = useMemo(() => getImageProvider(imageProviderId), [imageProviderId]);
+    const effectiveImageModel = useMemo(
+        () => resolveImageModel(imageProvider, imageModel, referenceImage !== null),
+        [imageProvider, imageModel, referenceImage]
+    );
+    const providerSupportsReferences = imageProvider.models.some(m => m.capabilities.referenceImages);
+
+    const [queue] = useState(() => createJobQueue<JobResult>({
+        concurrency,
+        requestsPerMinute,
+        shouldHalt: (error: Error) => HALTING_CATEGORIES.includes(classifyError(error).category),
+        canStart: (id: string) => budgetCheck.current(id),
+        onEvent: (event: QueueEvent<JobResult>) => {
+            if (event.type !== 'start') {
+                reservedJobIds.current.delete(event.id);
+                plannedUsage.current.delete(event.id);
+            }
+            setImageJobs(prevJobs => prevJobs.map(job => {
+                if (job.id !== event.id) return job;
+                switch (event.type) {
+                    case 'start':
+                        return { ...job, status: 'generating', error: undefined, errorCategory: undefined };
+                    case 'success':
+                        return withCurrentVersion({ ...job, status: 'success', stale: undefined, ...event.result });
+                    case 'error': {
+                        const error = classifyError(event.error);
+                        console.error(error.message);
+                        return { ...job, status: 'failed', error: error.message, errorCategory: error.category };
+                    }
+                    case 'cancelled':
+                        // A cancelled regeneration keeps showing the previous image.
+                        return { ...job, status: job.src ? 'success' : 'cancelled' };
+                }
+            }));
+        },
+    }));
+    const queueSnapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+    const isLoadingImages = queueSnapshot.state !== 'idle';
+
+    useEffect(() => {
+        queue.configure({ concurrency, requestsPerMinute });
+    }, [queue, concurrency, requestsPerMinute]);
+
+    useEffect(() => () => queue.cancelAll(), [queue]);
+
+    useEffect(() => {
+        budgetCheck.current = (id: string) => {
+            const planned = plannedUsage.current.get(id);
+            if (!planned) return null;
+            const spent = summarizeUsage(entriesForBudget(usageRef.current, budget, runIdRef.current), prices).total;
+            const reserved = Array.from(reservedJobIds.current, jobId => plannedUsage.current.get(jobId))
+                .reduce((sum, p) => ({ images: sum.images + (p?.images ?? 0), cost: sum.cost + (p?.cost ?? 0) }), { images: 0, cost: 0 });
+            const reason = checkBudget(budget, { images: spent.images + reserved.images, cost: spent.cost + reserved.cost }, planned);
+            if (!reason) reservedJobIds.current.add(id);
+            return reason;
+        };
+    }, [budget, prices]);
+
+    const replaceUsage = useCallback((entries: UsageEntry[]) => {
+        usageRef.current = entries;
+        setUsage(entries);
+    }, []);
+
+    const recordUsage = useCallback((entry: UsageEntry) => replaceUsage([...usageRef.current, entry]), [replaceUsage]);
+
+    const startRun = useCallback(() => {
+        const id = crypto.randomUUID();
+        runIdRef.current = id;
+        setRunId(id);
+        return id;
+    }, []);
+
+    const createMeter = useCallback((jobId?: string): UsageMeter => ({
+        runId: runIdRef.current ?? startRun(),
+        jobId,
+        record: recordUsage,
+    }), [startRun, recordUsage]);
+
+    const handlePricesChange = useCallback((next: PriceTable) => {
+        setPrices(next);
+        savePriceTable(next);
+    }, []);
+
+    const handleClearUsage = useCallback(() => {
+        if (!window.confirm('Clear the usage history of this project?')) return;
+        replaceUsage([]);
+    }, [replaceUsage]);
+
+    const currentProject = useMemo<Project>(() => ({
+        id: projectId,
+        name: projectName,
+        createdAt: projectCreatedAt,
+        updatedAt: Date.now(),
+        jobCount: imageJobs.length,
+        script,
+        settings: { styleKeywords, negativePrompt, aspectRatio, promptProviderId, promptModel, imageProviderId, imageModel, concurrency, requestsPerMinute, fileNamePattern, variantCount, retryPolicy, budget, postProcess, density, inputMode, batch, storyboard, timeline },
+        jobs: imageJobs,
+        referenceImage,
+        characters,
+        usage,
+    }), [projectId, projectName, projectCreatedAt, script, styleKeywords, negativePrompt, aspectRatio, promptProviderId, promptModel, imageProviderId, imageModel, concurrency, requestsPerMinute, fileNamePattern, variantCount, retryPolicy, budget, postProcess, density, inputMode, batch, storyboard, timeline, imageJobs, referenceImage, characters, usage]);
+
+    // Saves run one after another so a slow write never lands after a newer one.
+    const saveChain = useRef<Promise<unknown>>(Promise.resolve());
+
+    const persistProject = useCallback((project: Project) => {
+        const isEmpty = !project.script && project.jobs.length === 0 && !project.referenceImage && project.characters.length === 0;
+        if (isEmpty) return saveChain.current;
+        setSaveStatus('saving');
+        saveChain.current = saveChain.current.then(() => saveProject(project)).then(summary => {
+            setProjects(prev => [summary, ...prev.filter(p => p.id !== summary.id)]);
+            setLastProjectId(summary.id);
+            setSaveStatus('saved');
+        }).catch(err => {
+            console.error("Failed to save project:", err);
+            setSaveStatus('error');
+        });
+        return saveChain.current;
+    }, []);
+
+    const applyProject = useCallback((project: Project) => {
+        queue.cancelAll();
+        setProjectId(project.id);
+        setProjectName(project.name);
+        setProjectCreatedAt(project.createdAt);
+        setScript(project.script);
+        setStyleKeywords(project.settings.styleKeywords);
+        setNegativePrompt(project.settings.negativePrompt);
+        setAspectRatio(project.settings.aspectRatio);
+        setPromptProviderId(project.settings.promptProviderId);
+        setPromptModel(project.settings.promptModel);
+        setImageProviderId(project.settings.imageProviderId);
+        setImageModel(project.settings.imageModel);
+        setConcurrency(project.settings.concurrency);
+        setRequestsPerMinute(project.settings.requestsPerMinute);
+        setFileNamePattern(project.settings.fileNamePattern);
+        setVariantCount(project.settings.variantCount);
+        setRetryPolicy(project.settings.retryPolicy);
+        setBudget(project.settings.budget);
+        setPostProcess(project.settings.postProcess);
+        setDensity(project.settings.density);
+        setInputMode(project.settings.inputMode);
+        setBatch(project.settings.batch);
+        setStoryboard(project.settings.storyboard);
+        setTimeline(project.settings.timeline);
+        setProcessedImages(new Map());
+        replaceUsage(project.usage);
+        runIdRef.current = null;
+        setRunId(null);
+        setImageJobs(project.jobs);
+        setSelectedJobId(null);
+        setCharacterFilter('');
+        setLocationFilter('');
+        setReferenceImage(project.referenceImage);
+        setCharacters(project.characters);
+        setError(null);
+    }, [queue, replaceUsage]);
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const lastId = getLastProjectId();
+                const [list, project] = await Promise.all([listProjects(), lastId ? loadProject(lastId) : null]);
+                if (cancelled) return;
+                setProjects(list);
+                if (project) applyProject(project);
+            } catch (err: any) {
+                console.error(err);
+                if (!cancelled) setError(`Could not load saved projects: ${err.message}`);
+            } finally {
+                if (!cancelled) setIsHydrated(true);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [applyProject]);
+
+    useEffect(() => {
+        if (!isHydrated) return;
+        const timer = setTimeout(() => persistProject(currentProject), 800);
+        return () => clearTimeout(timer);
+    }, [isHydrated, currentProject, persistProject]);
+
+    const handleOpenProject = useCallback(async (id: string) => {
+        await persistProject(currentProject);
+        try {
+            const project = await loadProject(id);
+            if (!project) throw new Error("The project no longer exists.");
+            applyProject(project);
+            setLastProjectId(id);
+        } catch (err: any) {
+            setError(`Could not open project: ${err.message}`);
+        }
+    }, [currentProject, persistProject, applyProject]);
+
+    const handleNewProject = useCallback(async () => {
+        await persistProject(currentProject);
+        applyProject(createEmptyProject(UNTITLED_PROJECT));
+    }, [currentProject, persistProject, applyProject]);
+
+    const handleDuplicateProject = useCallback(async () => {
+        try {
+            await saveProject(currentProject);
+            const copy = await duplicateProject(currentProject.id, `${currentProject.name} (copy)`);
+            const project = await loadProject(copy.id);
+            if (!project) throw new Error("The copy could not be read back.");
+            setProjects(await listProjects());
+            applyProject(project);
+            setLastProjectId(project.id);
+        } catch (err: any) {
+            setError(`Could not duplicate project: ${err.message}`);
+        }
+    }, [currentProject, applyProject]);
+
+    const handleDeleteProject = useCallback(async () => {
+        if (!window.confirm(`Delete "${projectName}" and all of its images?`)) return;
+        try {
+            await saveChain.current;
+            await deleteProject(projectId);
+            const remaining = await listProjects();
+            setProjects(remaining);
+            const next = remaining[0] ? await loadProject(remaining[0].id) : null;
+            applyProject(next ?? createEmptyProject(UNTITLED_PROJECT));
+            if (next) setLastProjectId(next.id);
+        } catch (err: any) {
+            setError(`Could not delete project: ${err.message}`);
+        }
+    }, [projectId, projectName, applyProject]);
+
+    const handlePromptProviderChange = (id: string) => {
+        setPromptProviderId(id);
+        setPromptModel(getPromptProvider(id).models[0].id);
+    };
+
+    const handleImageProviderChange = (id: string) => {
+        const provider = getImageProvider(id);
+        setImageProviderId(id);
+        setImageModel(provider.models[0].id);
+        if (!provider.models[0].capabilities.aspectRatios.includes(aspectRatio)) {
+            setAspectRatio(provider.models[0].capabilities.aspectRatios[0]);
+        }
+    };
+
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
@@ -72,6 +403,20 @@ const App: React.FC = () => {
         }
     };
 
+    const handleImportScript = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = importScript(file.name, await file.text());
+            setScript(imported.script);
+            setImportedScript(imported);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message || `Failed to import ${file.name}.`);
+        }
+    };
+
     const handleGeneratePrompts = useCallback(async () => {
         if (!script) {
             setError('Please provide a script first.');
@@ -79,84 +424,415 @@ const App: React.FC = () => {
         }
         setIsLoadingPrompts(true);
         setError(null);
+        queue.cancelAll();
         setImageJobs([]);
         try {
-            const result = await generatePromptsFromScript(script);
-            setImageJobs(result.map(prompt => ({ prompt, status: 'pending' })));
+            const provider = getPromptProvider(promptProviderId);
+            const meter = { runId: startRun(), record: recordUsage };
+            // Long scripts go out in parts; each part is retried and metered on its own.
+            const result = await generateChunkedPrompts(
+                script,
+                density,
+                (text, targetCount) => withMeteredRetry(
+                    (onUsage) => provider.generatePrompts(text, promptModel, { targetCount, onUsage }),
+                    retryPolicy,
+                    { kind: 'prompts', providerId: provider.id, model: promptModel },
+                    { meter }
+                ),
+                setPromptProgress,
+                DEFAULT_CHUNK_OPTIONS,
+                importedScript?.script === script ? importedScript.headings : undefined
+            );
+            setImageJobs(result.map(({ prompt, scene }) => createImageJob(prompt, scene)));
         } catch (err: any) {
             setError(err.message);
         } finally {
             setIsLoadingPrompts(false);
+            setPromptProgress(null);
         }
-    }, [script]);
+    }, [queue, script, importedScript, density, promptProviderId, promptModel, retryPolicy, startRun, recordUsage]);
+
+    // Replaces the jobs, like generating prompts from a script does.
+    const handleCreateTemplateJobs = useCallback((items: BatchItem[]) => {
+        queue.cancelAll();
+        setError(null);
+        setImageJobs(items.map(item => createTemplateJob(item.prompt, item.overrides)));
+    }, [queue]);
 
-    const jobsToProcess = useMemo(() => 
-        imageJobs
-            .map((job, index) => ({...job, originalIndex: index}))
-            .filter(job => job.status === 'pending' || job.status === 'failed'),
-    [imageJobs]);
+    const jobsToProcess = useMemo(() => imageJobs.filter(isRunnableJob), [imageJobs]);
 
-    const handleGenerateImages = useCallback(async () => {
+    const enqueueJobs = useCallback((jobs: ImageJob[]) => {
+        // Settings are captured per run so changing them mid-run only affects the next one.
+        const provider = imageProvider;
+        const plans = new Map(jobs.map(job => {
+            const jobCharacters = matchCharacters(job, characters);
+            const references = [...(referenceImage ? [referenceImage] : []), ...collectReferenceImages(jobCharacters)];
+            // Jobs with character references are routed to a reference-capable model; the rest keep the selection.
+            const model = resolveImageModel(provider, imageModel, references.length > 0);
+            return [job.id, {
+                model,
+                styleKeywords: job.overrides?.styleKeywords ?? styleKeywords,
+                negativePrompt: job.overrides?.negativePrompt ?? negativePrompt,
+                aspectRatio: job.overrides?.aspectRatio ?? aspectRatio,
+                variants: job.variantCount ?? variantCount,
+                characters: jobCharacters,
+                referenceImages: model.capabilities.referenceImages ? references : [],
+            }];
+        }));
+
+        setImageJobs(prevJobs => prevJobs.map(job => {
+            const plan = plans.get(job.id);
+            if (!plan) return job;
+            return {
+                ...job,
+                status: 'queued',
+                error: undefined,
+                errorCategory: undefined,
+                providerId: provider.id,
+                model: plan.model.id,
+                styleKeywords: plan.styleKeywords,
+                negativePrompt: plan.negativePrompt,
+                aspectRatio: plan.aspectRatio,
+                usedCharacterIds: plan.characters.map(c => c.id),
+            };
+        }));
+
+        // Work queued on an idle queue starts a new run for the usage ledger and the run budget.
+        if (queue.getSnapshot().state === 'idle') startRun();
+        jobs.forEach(({ id, prompt }) => {
+            const plan = plans.get(id)!;
+            const meter = createMeter(id);
+            plannedUsage.current.set(id, planImageUsage(plan.model.id, plan.variants, prices, usageRef.current));
+            queue.enqueue(id, async (signal) => {
+                const images = await generateVariants(provider, plan.model, {
+                    prompt,
+                    styleKeywords: plan.styleKeywords,
+                    negativePrompt: plan.negativePrompt,
+                    referenceImages: plan.referenceImages,
+                    characters: toCharacterNotes(plan.characters),
+                    aspectRatio: plan.aspectRatio,
+                    signal,
+                }, plan.variants, retryPolicy, meter);
+                // Hashes identify the references in the exported metadata without embedding them.
+                const referenceHashes = await Promise.all(plan.referenceImages.map(image => sha256Hex(Uint8Array.from(atob(image.base64), c => c.charCodeAt(0)))));
+                // The first candidate is the hero until another one is picked.
+                return { src: images[0], variants: images.length > 1 ? images : undefined, generatedAt: Date.now(), referenceHashes };
+            });
+        });
+    }, [queue, styleKeywords, negativePrompt, referenceImage, characters, aspectRatio, imageProvider, imageModel, variantCount, retryPolicy, prices, startRun, createMeter]);
+
+    const handleGenerateImages = useCallback(() => {
         if (jobsToProcess.length === 0) {
             setError('No images to generate or retry.');
             return;
         }
-        setIsLoadingImages(true);
         setError(null);
-        setImageGenerationProgress(0);
-
-        for (let i = 0; i < jobsToProcess.length; i++) {
-            const { prompt, originalIndex } = jobsToProcess[i];
-            
-            setImageJobs(prevJobs => {
-                const newJobs = [...prevJobs];
-                newJobs[originalIndex] = { ...newJobs[originalIndex], status: 'generating', error: undefined };
-                return newJobs;
+        enqueueJobs(jobsToProcess);
+    }, [jobsToProcess, enqueueJobs]);
+
+    const handleRegenerateJob = useCallback((id: string) => {
+        const job = imageJobs.find(j => j.id === id);
+        if (!job || isActiveJob(job) || !job.prompt.trim()) return;
+        setError(null);
+        enqueueJobs([job]);
+    }, [imageJobs, enqueueJobs]);
+
+    const handleRewriteJob = useCallback(async (id: string) => {
+        const job = imageJobs.find(j => j.id === id);
+        if (!job || isActiveJob(job) || rewritingJobIds.has(id)) return;
+        setRewritingJobIds(prev => new Set(prev).add(id));
+        setError(null);
+        try {
+            const provider = getPromptProvider(promptProviderId);
+            const prompt = await withMeteredRetry(
+                (onUsage) => provider.rewritePromptSafely(job.prompt, promptModel, onUsage),
+                retryPolicy,
+                { kind: 'rewrite', providerId: provider.id, model: promptModel },
+                { meter: createMeter(id) }
+            );
+            setImageJobs(prevJobs => prevJobs.map(j => j.id === id ? updateJobPrompt(j, prompt) : j));
+            enqueueJobs([{ ...job, prompt }]);
+        } catch (err: any) {
+            setError(`Could not rewrite the prompt: ${err.message}`);
+        } finally {
+            setRewritingJobIds(prev => {
+                const next = new Set(prev);
+                next.delete(id);
+                return next;
             });
+        }
+    }, [imageJobs, rewritingJobIds, promptProviderId, promptModel, retryPolicy, createMeter, enqueueJobs]);
 
-            try {
-                const imageUrl = await generateImageFromPrompt(prompt, styleKeywords, referenceImage, aspectRatio);
-                setImageJobs(prevJobs => {
-                    const newJobs = [...prevJobs];
-                    newJobs[originalIndex] = { ...newJobs[originalIndex], status: 'success', src: imageUrl };
-                    return newJobs;
-                });
-            } catch (err: any) {
-                console.error(err.message);
-                setImageJobs(prevJobs => {
-                    const newJobs = [...prevJobs];
-                    newJobs[originalIndex] = { ...newJobs[originalIndex], status: 'failed', error: err.message };
-                    return newJobs;
-                });
+    const handleEditJob = useCallback((id: string, prompt: string) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === id ? updateJobPrompt(job, prompt) : job));
+    }, []);
+
+    const handleMoveJob = useCallback((fromIndex: number, toIndex: number) => {
+        setImageJobs(prevJobs => moveJob(prevJobs, fromIndex, toIndex));
+    }, []);
+
+    const handleDeleteJob = useCallback((id: string) => {
+        queue.cancel(id);
+        setImageJobs(prevJobs => prevJobs.filter(job => job.id !== id));
+    }, [queue]);
+
+    const selectedJob = useMemo(() => imageJobs.find(job => job.id === selectedJobId) ?? null, [imageJobs, selectedJobId]);
+
+    const sceneCharacters = useMemo(
+        () => Array.from(new Set(imageJobs.flatMap(job => job.scene?.characters ?? []))).sort(),
+        [imageJobs]
+    );
+    const sceneLocations = useMemo(
+        () => Array.from(new Set(imageJobs.map(job => job.scene?.setting ?? '').filter(Boolean))).sort(),
+        [imageJobs]
+    );
+
+    const isJobVisible = useCallback((job: ImageJob) =>
+        (!characterFilter || !!job.scene?.characters.includes(characterFilter))
+        && (!locationFilter || job.scene?.setting === locationFilter),
+    [characterFilter, locationFilter]);
+
+    const handleSetJobVariantCount = useCallback((id: string, count: number | undefined) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === id ? { ...job, variantCount: count } : job));
+    }, []);
+
+    const handleSetJobDuration = useCallback((id: string, seconds: number | undefined) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === id ? { ...job, duration: seconds } : job));
+    }, []);
+
+    const handleChooseVariant = useCallback((index: number) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === compareJobId ? chooseVariant(job, index) : job));
+    }, [compareJobId]);
+
+    const compareJob = useMemo(() => imageJobs.find(job => job.id === compareJobId && job.variants) ?? null, [imageJobs, compareJobId]);
+
+    const editingJob = useMemo(() => imageJobs.find(job => job.id === editingJobId && job.src) ?? null, [imageJobs, editingJobId]);
+    const editModel = useMemo(() => resolveEditModel(imageProvider, imageModel), [imageProvider, imageModel]);
+
+    // Edits run outside the queue, so the budget is checked here before each one.
+    const handleApplyEdit = useCallback(async (instruction: string, mask: string | undefined) => {
+        const job = editingJob;
+        if (!job?.src || !editModel) return;
+        const spent = summarizeUsage(entriesForBudget(usageRef.current, budget, runIdRef.current), prices).total;
+        const reason = checkBudget(budget, spent, planImageUsage(editModel.id, 1, prices, usageRef.current));
+        if (reason) throw new Error(reason);
+        const src = await editImage(imageProvider, editModel, {
+            image: job.src,
+            instruction,
+            mask,
+            aspectRatio: job.aspectRatio ?? aspectRatio,
+        }, retryPolicy, createMeter(job.id));
+        setImageJobs(prevJobs => prevJobs.map(j => j.id === job.id
+            ? addEditedVersion(j, src, { instruction, masked: !!mask, providerId: imageProvider.id, model: editModel.id })
+            : j));
+    }, [editingJob, editModel, imageProvider, aspectRatio, budget, prices, retryPolicy, createMeter]);
+
+    const handleSelectVersion = useCallback((versionId: string) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === editingJobId ? selectVersion(job, versionId) : job));
+    }, [editingJobId]);
+
+    // Throws when the presets do not fit in storage; the panel shows the message.
+    const handleStylePresetsChange = useCallback((next: StylePreset[]) => {
+        saveStylePresets(next);
+        setStylePresets(next);
+    }, []);
+
+    const createPresetFromCurrent = useCallback((name: string) => createStylePreset(
+        name,
+        { styleKeywords, negativePrompt, aspectRatio, imageProviderId, imageModel, variantCount },
+        referenceImage
+    ), [styleKeywords, negativePrompt, aspectRatio, imageProviderId, imageModel, variantCount, referenceImage]);
+
+    // A preset without a reference image leaves the current one in place.
+    const handleApplyPreset = useCallback((preset: StylePreset) => {
+        const model = presetModel(preset);
+        setStyleKeywords(preset.styleKeywords);
+        setNegativePrompt(preset.negativePrompt);
+        setAspectRatio(preset.aspectRatio);
+        setVariantCount(preset.variantCount);
+        if (preset.referenceImage) setReferenceImage(presetReferenceImage(preset));
+        if (model) {
+            const ratios = getImageProvider(model.providerId).models.find(m => m.id === model.modelId)!.capabilities.aspectRatios;
+            setImageProviderId(model.providerId);
+            setImageModel(model.modelId);
+            if (!ratios.includes(preset.aspectRatio)) setAspectRatio(ratios[0]);
+            setError(null);
+        } else {
+            setError(`The preset "${preset.name}" uses the image provider "${preset.imageProviderId}", which is not available here. The current provider was kept.`);
+        }
+    }, []);
+
+    const previewJobs = useMemo(() => imageJobs.filter(job => job.prompt.trim()).slice(0, PRESET_PREVIEW_COUNT), [imageJobs]);
+
+    // Like a queued job, but with the preset's settings, one image and nothing written back to the job.
+    const handleGeneratePreview = useCallback(async (job: ImageJob, signal: AbortSignal) => {
+        const preset = previewPreset;
+        const model = preset && presetModel(preset);
+        if (!preset || !model) throw new Error(`The image provider "${preset?.imageProviderId}" is not available.`);
+        const provider = getImageProvider(model.providerId);
+        const presetReference = presetReferenceImage(preset) ?? referenceImage;
+        const jobCharacters = matchCharacters(job, characters);
+        const references = [...(presetReference ? [presetReference] : []), ...collectReferenceImages(jobCharacters)];
+        const selected = resolveImageModel(provider, model.modelId, references.length > 0);
+        const spent = summarizeUsage(entriesForBudget(usageRef.current, budget, runIdRef.current), prices).total;
+        const reason = checkBudget(budget, spent, planImageUsage(selected.id, 1, prices, usageRef.current));
+        if (reason) throw new Error(reason);
+        const ratios = selected.capabilities.aspectRatios;
+        const [src] = await generateVariants(provider, selected, {
+            prompt: job.prompt,
+            styleKeywords: preset.styleKeywords,
+            negativePrompt: preset.negativePrompt,
+            referenceImages: selected.capabilities.referenceImages ? references : [],
+            characters: toCharacterNotes(jobCharacters),
+            aspectRatio: ratios.includes(preset.aspectRatio) ? preset.aspectRatio : ratios[0],
+            signal,
+        }, 1, retryPolicy, createMeter(job.id));
+        return src;
+    }, [previewPreset, referenceImage, characters, budget, prices, retryPolicy, createMeter]);
+
+    const handleSetJobCharacters = useCallback((id: string, characterIds: string[] | undefined) => {
+        setImageJobs(prevJobs => prevJobs.map(job => job.id === id ? { ...job, characterIds } : job));
+    }, []);
+
+    const characterNames = useMemo(
+        () => new Map(characters.map(character => [character.id, character.name || 'Unnamed'])),
+        [characters]
+    );
+
+    const handleInsertJob = useCallback((index: number) => {
+        setImageJobs(prevJobs => [...prevJobs.slice(0, index), createImageJob(''), ...prevJobs.slice(index)]);
+    }, []);
+
+    // Images exported by this app carry their settings. Each becomes a finished job at the end of the
+    // list, and the first one's image model is selected so that regenerating reproduces the shot.
+    const handleRestoreFromImages = useCallback(async (files: File[]) => {
+        const restored: ImageJob[] = [];
+        const unreadable: string[] = [];
+        for (const file of files.filter(f => f.type.startsWith('image/'))) {
+            const metadata = readGenerationMetadata(new Uint8Array(await file.arrayBuffer()));
+            if (metadata) restored.push(jobFromMetadata(metadata, await blobToDataUrl(file)));
+            else unreadable.push(file.name);
+        }
+        if (restored.length > 0) {
+            setImageJobs(prevJobs => [...prevJobs, ...restored]);
+            const { providerId, model } = restored[0];
+            const provider = listImageProviders().find(p => p.id === providerId);
+            if (provider && model && provider.models.some(m => m.id === model)) {
+                setImageProviderId(provider.id);
+                setImageModel(model);
             }
-            setImageGenerationProgress(i + 1);
         }
+        if (unreadable.length > 0) {
+            setError(`No generation settings found in ${unreadable.join(', ')}. Only images exported by this app can be restored.`);
+        } else if (restored.length > 0) {
+            setError(null);
+        }
+    }, []);
 
-        setIsLoadingImages(false);
-    }, [jobsToProcess, styleKeywords, referenceImage, aspectRatio]);
+    const handleRestoreInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        void handleRestoreFromImages(files);
+    }, [handleRestoreFromImages]);
 
     const successfulImages = useMemo(() => imageJobs.filter(job => job.status === 'success' && job.src), [imageJobs]);
 
-    const handleDownloadAll = useCallback(() => {
+    // Processes new or changed hero images one at a time, in the background.
+    useEffect(() => {
+        if (!postProcess.enabled) return;
+        let cancelled = false;
+        (async () => {
+            for (const [index, job] of imageJobs.entries()) {
+                if (cancelled) return;
+                if (job.status !== 'success' || !job.src) continue;
+                const jobAspectRatio = job.aspectRatio ?? aspectRatio;
+                const overlay = overlayTextForJob(job, index);
+                const key = postProcessKey(postProcess, jobAspectRatio, overlay);
+                const existing = processedRef.current.get(job.id);
+                if (existing?.source === job.src && existing.key === key) continue;
+                let result: ProcessedImage;
+                try {
+                    result = { source: job.src, key, src: await processImage(job.src, jobAspectRatio, postProcess, overlay) };
+                } catch (err: any) {
+                    result = { source: job.src, key, error: err.message };
+                }
+                if (cancelled) return;
+                processedRef.current = new Map(processedRef.current).set(job.id, result);
+                setProcessedImages(processedRef.current);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [imageJobs, postProcess, aspectRatio]);
+
+    // The processed hero when it is up to date with the image and the settings.
+    const getProcessedImage = useCallback((job: ImageJob, index: number): ProcessedImage | undefined => {
+        if (!postProcess.enabled || !job.src) return undefined;
+        const processed = processedImages.get(job.id);
+        const key = postProcessKey(postProcess, job.aspectRatio ?? aspectRatio, overlayTextForJob(job, index));
+        return processed?.source === job.src && processed.key === key ? processed : undefined;
+    }, [postProcess, aspectRatio, processedImages]);
+
+    const handleDownloadAll = useCallback(async () => {
         if (successfulImages.length === 0) return;
-        
-        successfulImages.forEach((image, index) => {
-            const fileName = `${index + 1}.png`;
-            
-            const link = document.createElement('a');
-            link.href = image.src!;
-            link.download = fileName;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-        });
+        try {
+            const processed = postProcess.enabled
+                ? await processProjectImages(currentProject, postProcess, includeAllVariants, (job, index) => getProcessedImage(job, index)?.src)
+                : undefined;
+            const zip = exportProjectZip(currentProject, fileNamePattern, {
+                includeAllVariants, prices, postProcess, embedMetadata, processedImages: processed, timeline: includeTimelines ? timeline : undefined,
+            });
+            downloadBlob(zip, `${slugify(currentProject.name)}.zip`);
+        } catch (err: any) {
+            console.error(err);
+            setError(`Could not build the ZIP export: ${err.message}`);
+        }
+    }, [successfulImages, currentProject, fileNamePattern, includeAllVariants, prices, postProcess, embedMetadata, includeTimelines, timeline, getProcessedImage]);
 
-    }, [successfulImages]);
+    // Post-processed images are used when post-processing is on, as in the ZIP.
+    const handleExportStoryboard = useCallback(async (format: 'html' | 'pdf') => {
+        setStoryboardExport(format);
+        try {
+            const project = postProcess.enabled
+                ? await applyPostProcessing(currentProject, postProcess, false, (job, index) => getProcessedImage(job, index)?.src)
+                : currentProject;
+            const panels = storyboardPanels(project);
+            const fileName = `${slugify(currentProject.name)}-storyboard`;
+            if (format === 'html') {
+                downloadBlob(new Blob([buildStoryboardHtml(currentProject.name, panels, storyboard)], { type: 'text/html' }), `${fileName}.html`);
+            } else {
+                downloadBlob(await exportStoryboardPdf(currentProject.name, panels, storyboard), `${fileName}.pdf`);
+            }
+        } catch (err: any) {
+            console.error(err);
+            setError(`Could not build the storyboard: ${err.message}`);
+        } finally {
+            setStoryboardExport(null);
+        }
+    }, [currentProject, postProcess, storyboard, getProcessedImage]);
+
+    const jobTimings = useMemo(() => jobDurations(imageJobs, timeline), [imageJobs, timeline]);
+
+    // Timed over the successful images only, like the timelines in the ZIP.
+    const slideshowSpans = useMemo(() => frameSpans(jobDurations(successfulImages, timeline), timeline.frameRate), [successfulImages, timeline]);
+
+    // Framed like the timelines in the ZIP, at the aspect ratio most of the images share.
+    const slideshowRatios = useMemo(() => successfulImages.map(job => job.aspectRatio ?? aspectRatio), [successfulImages, aspectRatio]);
+    const slideshowAspectRatio = useMemo(() => timelineAspectRatio(slideshowRatios, aspectRatio), [slideshowRatios, aspectRatio]);
+
+    // The slides are fixed when the preview opens; processed images are used when they are ready.
+    const handlePreviewSlideshow = useCallback(() => {
+        const sources = imageJobs.flatMap((job, index) =>
+            job.status === 'success' && job.src ? [getProcessedImage(job, index)?.src ?? job.src] : []);
+        setSlideshow(sources.map((src, i) => ({ src, frames: slideshowSpans[i].frames })));
+    }, [imageJobs, slideshowSpans, getProcessedImage]);
 
     const hasFailedJobs = useMemo(() => imageJobs.some(j => j.status === 'failed'), [imageJobs]);
     const hasPendingJobs = useMemo(() => imageJobs.some(j => j.status === 'pending'), [imageJobs]);
     
+    const finishedCount = queueSnapshot.succeeded + queueSnapshot.failed + queueSnapshot.cancelled;
+
     const getGenerateButtonText = () => {
+        if (queueSnapshot.state === 'paused') return 'Paused';
         if (isLoadingImages) return 'Generating Images...';
         if (hasFailedJobs && !hasPendingJobs) return 'Retry Failed Images';
         return 'Generate Images';
@@ -170,6 +846,19 @@ const App: React.FC = () => {
                     <p className="text-lg text-text-secondary mt-2">Your AI-powered script-to-image studio</p>
                 </header>
 
+                <ProjectBar
+                    projects={projects}
+                    currentId={projectId}
+                    currentName={projectName}
+                    saveStatus={saveStatus}
+                    disabled={!isHydrated || isLoadingImages}
+                    onOpen={handleOpenProject}
+                    onNew={handleNewProject}
+                    onDuplicate={handleDuplicateProject}
+                    onRename={setProjectName}
+                    onDelete={handleDeleteProject}
+                />
+
                 {error && (
                     <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg relative mb-6" role="alert">
                         <strong className="font-bold">Error: </strong>
@@ -185,19 +874,75 @@ const App: React.FC = () => {
                                 <span className="bg-primary text-white rounded-full h-8 w-8 flex items-center justify-center mr-3 font-bold text-sm">1</span>
                                 Provide Content
                             </h2>
-                            <textarea
-                                value={script}
-                                onChange={(e) => setScript(e.target.value)}
-                                placeholder="Paste your script, story, or long text here..."
-                                className="w-full h-60 p-3 bg-secondary border border-border rounded-md focus:ring-2 focus:ring-primary focus:outline-none transition-all text-text-secondary placeholder:text-gray-500"
-                            />
-                            <button
-                                onClick={handleGeneratePrompts}
-                                disabled={isLoadingPrompts || !script}
-                                className="mt-4 w-full bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-primary-hover disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-                            >
-                                {isLoadingPrompts ? <><SpinnerIcon /> Generating Prompts...</> : 'Generate Prompts'}
-                            </button>
+                            <div className="grid grid-cols-2 gap-2 mb-4" role="tablist" aria-label="Input mode">
+                                {(['script', 'template'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        role="tab"
+                                        aria-selected={inputMode === mode}
+                                        onClick={() => setInputMode(mode)}
+                                        className={`py-2 px-3 rounded-md text-sm font-semibold transition-colors ${inputMode === mode ? 'bg-primary text-white' : 'bg-secondary text-text-secondary hover:text-text-main'}`}
+                                    >
+                                        {mode === 'script' ? 'Script' : 'Template + Data'}
+                                    </button>
+                                ))}
+                            </div>
+                            {inputMode === 'script' ? (
+                                <>
+                                    <div className="grid grid-cols-2 gap-2 mb-4">
+                                        <select
+                                            aria-label="Prompt provider"
+                                            value={promptProviderId}
+                                            onChange={(e) => handlePromptProviderChange(e.target.value)}
+                                            className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                        >
+                                            {listPromptProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                        </select>
+                                        <select
+                                            aria-label="Prompt model"
+                                            value={promptModel}
+                                            onChange={(e) => setPromptModel(e.target.value)}
+                                            className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                        >
+                                            {getPromptProvider(promptProviderId).models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                        </select>
+                                    </div>
+                                    {(promptProviderId === 'gemini' || imageProviderId === 'gemini') && <GeminiAccessSettings />}
+                                    {(promptProviderId === 'openai' || imageProviderId === 'openai') && <OpenAiAccessSettings />}
+                                    <div className="flex justify-between items-center mb-1">
+                                        <span className="text-xs text-text-secondary">Fountain, Final Draft (.fdx), SRT and WebVTT files keep their scenes and timestamps.</span>
+                                        <label className="text-sm text-primary hover:text-primary-hover cursor-pointer whitespace-nowrap ml-2">
+                                            Import file
+                                            <input type="file" accept={SCRIPT_IMPORT_ACCEPT} onChange={handleImportScript} className="hidden" />
+                                        </label>
+                                    </div>
+                                    <textarea
+                                        value={script}
+                                        onChange={(e) => setScript(e.target.value)}
+                                        placeholder="Paste your script, story, or long text here..."
+                                        className="w-full h-60 p-3 bg-secondary border border-border rounded-md focus:ring-2 focus:ring-primary focus:outline-none transition-all text-text-secondary placeholder:text-gray-500"
+                                    />
+                                    <PromptDensityControl density={density} script={script} onChange={setDensity} />
+                                    <button
+                                        onClick={handleGeneratePrompts}
+                                        disabled={isLoadingPrompts || !script}
+                                        className="mt-4 w-full bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-primary-hover disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                                    >
+                                        {isLoadingPrompts
+                                            ? <><SpinnerIcon /> {promptProgress && promptProgress.total > 1 ? `Generating Prompts (part ${Math.min(promptProgress.completed + 1, promptProgress.total)} of ${promptProgress.total})...` : 'Generating Prompts...'}</>
+                                            : 'Generate Prompts'}
+                                    </button>
+                                    {selectedJob?.scene && (
+                                        <ScriptHighlight script={script} scene={selectedJob.scene} onClose={() => setSelectedJobId(null)} />
+                                    )}
+                                </>
+                            ) : (
+                                <>
+                                    {imageProviderId === 'gemini' && <GeminiAccessSettings />}
+                                    {imageProviderId === 'openai' && <OpenAiAccessSettings />}
+                                    <BatchTemplateEditor settings={batch} onChange={setBatch} onCreateJobs={handleCreateTemplateJobs} />
+                                </>
+                            )}
                         </div>
 
                         <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
@@ -206,6 +951,38 @@ const App: React.FC = () => {
                                 Define Image Style (Optional)
                             </h2>
                             <div className="space-y-4">
+                                <StylePresetsPanel
+                                    presets={stylePresets}
+                                    onChange={handleStylePresetsChange}
+                                    createFromCurrent={createPresetFromCurrent}
+                                    onApply={handleApplyPreset}
+                                    onPreview={setPreviewPreset}
+                                    canPreview={previewJobs.length > 0}
+                                />
+                                <div>
+                                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="image-provider">Image Provider &amp; Model</label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <select
+                                            id="image-provider"
+                                            value={imageProviderId}
+                                            onChange={(e) => handleImageProviderChange(e.target.value)}
+                                            className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                        >
+                                            {listImageProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                        </select>
+                                        <select
+                                            aria-label="Image model"
+                                            value={imageModel}
+                                            onChange={(e) => setImageModel(e.target.value)}
+                                            className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                        >
+                                            {imageProvider.models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                        </select>
+                                    </div>
+                                    {effectiveImageModel.id !== imageModel && (
+                                        <p className="mt-1 text-xs text-text-secondary">Using {effectiveImageModel.label} because a reference image is attached.</p>
+                                    )}
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="style-keywords">Style Keywords</label>
                                     <input
@@ -217,6 +994,17 @@ const App: React.FC = () => {
                                         className="w-full p-3 bg-secondary border border-border rounded-md focus:ring-2 focus:ring-primary focus:outline-none transition-all text-text-secondary placeholder:text-gray-500"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="negative-prompt">Avoid</label>
+                                    <input
+                                        type="text"
+                                        id="negative-prompt"
+                                        value={negativePrompt}
+                                        onChange={(e) => setNegativePrompt(e.target.value)}
+                                        placeholder="e.g., text, watermarks, extra fingers"
+                                        className="w-full p-3 bg-secondary border border-border rounded-md focus:ring-2 focus:ring-primary focus:outline-none transition-all text-text-secondary placeholder:text-gray-500"
+                                    />
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-text-secondary mb-2">Aspect Ratio</label>
                                     <div className="flex space-x-2 rounded-md bg-secondary p-1">
@@ -224,7 +1012,8 @@ const App: React.FC = () => {
                                             <button
                                                 key={ratio}
                                                 onClick={() => setAspectRatio(ratio)}
-                                                className={`w-full rounded py-2 px-3 text-sm font-semibold transition-colors ${
+                                                disabled={!effectiveImageModel.capabilities.aspectRatios.includes(ratio)}
+                                                className={`w-full rounded py-2 px-3 text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                                                     aspectRatio === ratio
                                                         ? 'bg-primary text-white'
                                                         : 'text-text-secondary hover:bg-border'
@@ -242,6 +1031,7 @@ const App: React.FC = () => {
                                         id="ref-image"
                                         accept="image/*"
                                         onChange={handleFileChange}
+                                        disabled={!providerSupportsReferences}
                                         className="w-full text-sm text-text-secondary file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-white hover:file:bg-primary-hover file:cursor-pointer"
                                     />
                                     {referenceImage && (
@@ -250,25 +1040,97 @@ const App: React.FC = () => {
                                                 <FileIcon />
                                                 {referenceImage.file.name}
                                             </div>
-                                            <p className="mt-1 text-xs text-text-secondary">Note: The selected aspect ratio may not apply when a reference image is used.</p>
+                                            {!effectiveImageModel.capabilities.nativeAspectRatio && (
+                                                <p className="mt-1 text-xs text-text-secondary">Note: The selected aspect ratio may not apply when a reference image is used. Turn on cropping under Post-processing to enforce it.</p>
+                                            )}
                                         </>
                                     )}
+                                    {!providerSupportsReferences && (
+                                        <p className="mt-1 text-xs text-text-secondary">{imageProvider.label} does not accept reference images.</p>
+                                    )}
                                 </div>
                             </div>
                         </div>
+
+                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
+                            <h2 className="text-xl font-semibold mb-4 text-text-main flex items-center">
+                                <span className="bg-primary text-white rounded-full h-8 w-8 flex items-center justify-center mr-3 font-bold text-sm">3</span>
+                                Character Bible (Optional)
+                            </h2>
+                            <CharacterLibrary characters={characters} onChange={setCharacters} onError={setError} />
+                            {characters.some(c => c.images.length > 0) && !providerSupportsReferences && (
+                                <p className="mt-2 text-xs text-text-secondary">{imageProvider.label} cannot use reference images; only the descriptions will be sent.</p>
+                            )}
+                        </div>
+
+                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
+                            <h2 className="text-xl font-semibold mb-4 text-text-main flex items-center">
+                                <span className="bg-primary text-white rounded-full h-8 w-8 flex items-center justify-center mr-3 font-bold text-sm">4</span>
+                                Post-processing (Optional)
+                            </h2>
+                            <PostProcessPanel settings={postProcess} aspectRatio={aspectRatio} onChange={setPostProcess} />
+                        </div>
                     </div>
 
                     {/* Right Column: Outputs */}
                     <div className="flex flex-col gap-8">
-                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
-                            <h2 className="text-xl font-semibold mb-2 text-text-main">Generated Prompts ({imageJobs.length})</h2>
+                        <div
+                            className="bg-card p-6 rounded-lg border border-border shadow-lg"
+                            onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+                            onDrop={(e) => {
+                                if (e.dataTransfer.files.length === 0) return;
+                                e.preventDefault();
+                                void handleRestoreFromImages(Array.from(e.dataTransfer.files));
+                            }}
+                        >
+                            <div className="flex justify-between items-center mb-2">
+                                <h2 className="text-xl font-semibold text-text-main">Generated Prompts ({imageJobs.length})</h2>
+                                <label className="text-sm text-primary hover:text-primary-hover cursor-pointer" title="Or drop exported images on this panel">
+                                    Restore from image
+                                    <input type="file" accept="image/png,image/jpeg,image/webp,image/svg+xml" multiple onChange={handleRestoreInput} className="hidden" />
+                                </label>
+                            </div>
                             {imageJobs.length > 0 ? (
                                 <>
-                                    <div className="max-h-60 overflow-y-auto space-y-2 p-3 bg-secondary rounded-md border border-border">
-                                        {imageJobs.map((job, i) => (
-                                            <p key={i} className="text-sm text-text-secondary border-b border-border/50 pb-1">{i + 1}. {job.prompt}</p>
-                                        ))}
-                                    </div>
+                                    {(sceneCharacters.length > 0 || sceneLocations.length > 0) && (
+                                        <div className="grid grid-cols-2 gap-2 mb-2">
+                                            <select
+                                                aria-label="Filter by character"
+                                                value={characterFilter}
+                                                onChange={(e) => setCharacterFilter(e.target.value)}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            >
+                                                <option value="">All characters</option>
+                                                {sceneCharacters.map(name => <option key={name} value={name}>{name}</option>)}
+                                            </select>
+                                            <select
+                                                aria-label="Filter by location"
+                                                value={locationFilter}
+                                                onChange={(e) => setLocationFilter(e.target.value)}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            >
+                                                <option value="">All locations</option>
+                                                {sceneLocations.map(name => <option key={name} value={name}>{name}</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                    <PromptList
+                                        jobs={imageJobs}
+                                        library={characters}
+                                        onSetCharacters={handleSetJobCharacters}
+                                        defaultVariantCount={variantCount}
+                                        onSetVariantCount={handleSetJobVariantCount}
+                                        durations={jobTimings}
+                                        onSetDuration={handleSetJobDuration}
+                                        selectedId={selectedJobId}
+                                        isVisible={isJobVisible}
+                                        onSelect={setSelectedJobId}
+                                        onEdit={handleEditJob}
+                                        onMove={handleMoveJob}
+                                        onDelete={handleDeleteJob}
+                                        onInsert={handleInsertJob}
+                                        onRegenerate={handleRegenerateJob}
+                                    />
                                     <button
                                         onClick={handleGenerateImages}
                                         disabled={isLoadingImages || jobsToProcess.length === 0}
@@ -277,13 +1139,116 @@ const App: React.FC = () => {
                                         } disabled:bg-gray-600 disabled:cursor-not-allowed`}
                                     >
                                         {/* FIX: Corrected typo in function call from getGenerateButtonLet... to getGenerateButtonText */}
-                                        {isLoadingImages ? <><SpinnerIcon /> {getGenerateButtonText()}</> : getGenerateButtonText()}
+                                        {queueSnapshot.state === 'running' ? <><SpinnerIcon /> {getGenerateButtonText()}</> : getGenerateButtonText()}
                                     </button>
+                                    <div className="mt-4 grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="variant-count">Variants per Prompt</label>
+                                            <select
+                                                id="variant-count"
+                                                value={variantCount}
+                                                onChange={(e) => setVariantCount(Number(e.target.value))}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            >
+                                                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="concurrency">Parallel Requests</label>
+                                            <input
+                                                type="number"
+                                                id="concurrency"
+                                                min={1}
+                                                max={8}
+                                                value={concurrency}
+                                                onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="rpm">Requests / Minute (0 = unlimited)</label>
+                                            <input
+                                                type="number"
+                                                id="rpm"
+                                                min={0}
+                                                value={requestsPerMinute}
+                                                onChange={(e) => setRequestsPerMinute(Math.max(0, Number(e.target.value) || 0))}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="mt-4 grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="max-retries">Retries per Request</label>
+                                            <input
+                                                type="number"
+                                                id="max-retries"
+                                                min={0}
+                                                max={10}
+                                                value={retryPolicy.maxRetries}
+                                                onChange={(e) => setRetryPolicy(policy => ({ ...policy, maxRetries: Math.min(10, Math.max(0, Number(e.target.value) || 0)) }))}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="max-wait">Longest Retry Wait (s)</label>
+                                            <input
+                                                type="number"
+                                                id="max-wait"
+                                                min={1}
+                                                value={Math.round(retryPolicy.maxDelayMs / 1000)}
+                                                onChange={(e) => setRetryPolicy(policy => ({ ...policy, maxDelayMs: Math.max(1, Number(e.target.value) || 1) * 1000 }))}
+                                                className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                            />
+                                        </div>
+                                    </div>
+                                    <p className="mt-1 text-xs text-text-secondary">Rate limits, server errors and network failures are retried with backoff, honouring the server's Retry-After.</p>
+                                    {queueSnapshot.haltReason && (
+                                        <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-200 rounded-md text-sm">
+                                            <p className="font-semibold">The queue was stopped before running the remaining jobs.</p>
+                                            <p className="mt-1 text-xs break-words">{queueSnapshot.haltReason}</p>
+                                            {queueSnapshot.state === 'paused' && <p className="mt-1 text-xs">Fix the key or quota, or raise the budget, then press Resume.</p>}
+                                        </div>
+                                    )}
+                                    {isLoadingImages && (
+                                        <div className="mt-4 flex gap-2">
+                                            <button
+                                                onClick={() => queueSnapshot.state === 'paused' ? queue.resume() : queue.pause()}
+                                                className="w-full bg-secondary border border-border text-text-main font-bold py-2 px-4 rounded-md hover:bg-border transition-colors text-sm"
+                                            >
+                                                {queueSnapshot.state === 'paused' ? 'Resume' : 'Pause'}
+                                            </button>
+                                            <button
+                                                onClick={() => queue.cancelAll()}
+                                                className="w-full bg-red-700 text-white font-bold py-2 px-4 rounded-md hover:bg-red-800 transition-colors text-sm"
+                                            >
+                                                Cancel All
+                                            </button>
+                                        </div>
+                                    )}
                                 </>
                             ) : (
-                                <p className="text-text-secondary italic">Prompts will appear here after generation.</p>
+                                <>
+                                    <p className="text-text-secondary italic">Prompts will appear here after generation. Drop an exported image here to restore its settings.</p>
+                                    <button onClick={() => handleInsertJob(0)} className="mt-2 text-sm text-primary hover:text-primary-hover">
+                                        + Add a prompt manually
+                                    </button>
+                                </>
                             )}
                         </div>
+
+                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
+                            <h2 className="text-xl font-semibold mb-4 text-text-main">Usage &amp; Budget</h2>
+                            <UsagePanel
+                                usage={usage}
+                                runId={runId}
+                                prices={prices}
+                                onPricesChange={handlePricesChange}
+                                budget={budget}
+                                onBudgetChange={setBudget}
+                                onClear={handleClearUsage}
+                            />
+                        </div>
                         
                         <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
                              <div className="flex justify-between items-center mb-4">
@@ -293,48 +1258,141 @@ const App: React.FC = () => {
                                     disabled={isLoadingImages || successfulImages.length === 0}
                                     className="bg-blue-600 text-white font-bold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors text-sm"
                                 >
-                                    Download All
+                                    Download ZIP
                                 </button>
                              </div>
+                             <div className="mb-4">
+                                <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="file-name-pattern">File Name Pattern</label>
+                                <input
+                                    type="text"
+                                    id="file-name-pattern"
+                                    value={fileNamePattern}
+                                    onChange={(e) => setFileNamePattern(e.target.value)}
+                                    className="w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+                                />
+                                <p className="mt-1 text-xs text-text-secondary">Tokens: {FILENAME_TOKENS.join(' ')}. The ZIP also contains manifest.json, manifest.csv and a usage summary.</p>
+                                <label className="mt-2 flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                                    <input type="checkbox" checked={includeAllVariants} onChange={(e) => setIncludeAllVariants(e.target.checked)} />
+                                    Include all variants, not just the chosen hero images
+                                </label>
+                                <label className="mt-1 flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                                    <input type="checkbox" checked={embedMetadata} onChange={(e) => setEmbedMetadata(e.target.checked)} />
+                                    Embed prompt and settings in the image files
+                                </label>
+                                <label className="mt-1 flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                                    <input type="checkbox" checked={includeTimelines} onChange={(e) => setIncludeTimelines(e.target.checked)} />
+                                    Add video timelines (ffmpeg concat, EDL, FCPXML)
+                                </label>
+                             </div>
                             
-                            {isLoadingImages && jobsToProcess.length > 0 && (
-                                <div className="w-full bg-secondary rounded-full h-2.5 mb-4">
-                                    <div className="bg-primary h-2.5 rounded-full" style={{ width: `${(imageGenerationProgress / jobsToProcess.length) * 100}%` }}></div>
+                            {isLoadingImages && queueSnapshot.total > 0 && (
+                                <div className="mb-4">
+                                    <div className="w-full bg-secondary rounded-full h-2.5">
+                                        <div className="bg-primary h-2.5 rounded-full" style={{ width: `${(finishedCount / queueSnapshot.total) * 100}%` }}></div>
+                                    </div>
+                                    <p className="mt-1 text-xs text-text-secondary">
+                                        {finishedCount}/{queueSnapshot.total} done · {queueSnapshot.running} running · {queueSnapshot.queued} queued
+                                        {queueSnapshot.failed > 0 && ` · ${queueSnapshot.failed} failed`}
+                                        {queueSnapshot.cancelled > 0 && ` · ${queueSnapshot.cancelled} cancelled`}
+                                    </p>
                                 </div>
                             )}
 
                             {imageJobs.length > 0 ? (
                                 <div className="max-h-[600px] overflow-y-auto grid grid-cols-2 sm:grid-cols-3 gap-4">
-                                    {imageJobs.map((job, i) => (
-                                        <div key={i} className="group relative rounded-lg overflow-hidden border-2 border-border bg-secondary flex items-center justify-center aspect-square">
-                                            {job.status === 'success' && job.src ? (
-                                                <>
-                                                    <img src={job.src} alt={job.prompt} className="w-full h-full object-cover" />
-                                                    <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity p-2 text-xs text-white flex items-center justify-center text-center">
-                                                        {job.prompt}
+                                    {imageJobs.map((job, index) => {
+                                        const processed = getProcessedImage(job, index);
+                                        return (
+                                            <div
+                                                key={job.id}
+                                                onClick={() => setSelectedJobId(job.id)}
+                                                className={`group relative rounded-lg overflow-hidden border-2 bg-secondary flex items-center justify-center aspect-square ${job.id === selectedJobId ? 'border-primary' : 'border-border'}`}
+                                            >
+                                                {job.status === 'success' && job.src ? (
+                                                    <>
+                                                        <img src={processed?.src ?? job.src} alt={job.prompt} className={`w-full h-full object-cover ${job.stale ? 'opacity-50' : ''}`} />
+                                                        {processed?.error && (
+                                                            <span className="absolute bottom-8 right-1 z-10 bg-yellow-600 text-white text-xs font-semibold px-2 py-0.5 rounded" title={processed.error}>Unprocessed</span>
+                                                        )}
+                                                        {job.stale && (
+                                                            <span className="absolute top-1 left-1 bg-yellow-600 text-white text-xs font-semibold px-2 py-0.5 rounded">Stale</span>
+                                                        )}
+                                                        <div className="absolute top-1 right-1 z-10 flex gap-1">
+                                                            {job.variants && (
+                                                                <button
+                                                                    onClick={(e) => {
+                                                                        e.stopPropagation();
+                                                                        setCompareJobId(job.id);
+                                                                    }}
+                                                                    className="bg-black/70 hover:bg-primary text-white text-xs font-semibold px-2 py-0.5 rounded"
+                                                                    title="Compare variants"
+                                                                >
+                                                                    ⧉ {job.variants.includes(job.src) ? `${job.variants.indexOf(job.src) + 1}/` : ''}{job.variants.length}
+                                                                </button>
+                                                            )}
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    setEditingJobId(job.id);
+                                                                }}
+                                                                className="bg-black/70 hover:bg-primary text-white text-xs font-semibold px-2 py-0.5 rounded"
+                                                                title={job.versions ? `Edit image (${job.versions.length} versions)` : 'Edit image'}
+                                                            >
+                                                                ✎{job.versions && ` ${job.versions.length}`}
+                                                            </button>
+                                                        </div>
+                                                        {job.usedCharacterIds && job.usedCharacterIds.length > 0 && (
+                                                            <span className="absolute bottom-1 left-1 right-1 truncate bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">
+                                                                👤 {job.usedCharacterIds.map(id => characterNames.get(id) ?? 'Removed').join(', ')}
+                                                            </span>
+                                                        )}
+                                                        <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity p-2 text-xs text-white flex items-center justify-center text-center">
+                                                            {job.prompt}
+                                                        </div>
+                                                    </>
+                                                ) : job.status === 'generating' || job.status === 'queued' ? (
+                                                    <div className="flex flex-col items-center gap-2 text-text-secondary">
+                                                        {job.status === 'generating' ? <SpinnerIcon /> : <ClockIcon />}
+                                                        <span className="text-xs">{job.status === 'generating' ? 'Generating...' : 'Queued'}</span>
+                                                        <button
+                                                            onClick={() => queue.cancel(job.id)}
+                                                            className="text-xs text-red-300 hover:text-red-200 underline"
+                                                        >
+                                                            Cancel
+                                                        </button>
                                                     </div>
-                                                </>
-                                            ) : job.status === 'generating' ? (
-                                                <div className="flex flex-col items-center gap-2 text-text-secondary">
-                                                    <SpinnerIcon />
-                                                    <span className="text-xs">Generating...</span>
-                                                </div>
-                                            ) : job.status === 'pending' ? (
-                                                <div className="flex flex-col items-center gap-2 text-text-secondary">
-                                                    <ClockIcon />
-                                                    <span className="text-xs">Pending</span>
-                                                </div>
-                                            ) : job.status === 'failed' ? (
-                                                <div className="border-red-500 border-2 w-full h-full flex flex-col items-center justify-center gap-2 p-2 text-center">
-                                                    <ErrorIcon />
-                                                    <span className="text-sm text-red-400">Failed</span>
-                                                    <div className="absolute inset-0 bg-black/80 opacity-0 group-hover:opacity-100 transition-opacity p-2 text-xs text-white overflow-auto flex items-center justify-center">
-                                                        {job.error}
+                                                ) : job.status === 'pending' || job.status === 'cancelled' ? (
+                                                    <div className="flex flex-col items-center gap-2 text-text-secondary">
+                                                        <ClockIcon />
+                                                        <span className="text-xs">{job.status === 'pending' ? 'Pending' : 'Cancelled'}</span>
                                                     </div>
-                                                </div>
-                                            ) : null}
-                                        </div>
-                                    ))}
+                                                ) : job.status === 'failed' ? (
+                                                    <div className="border-red-500 border-2 w-full h-full flex flex-col items-center justify-center gap-2 p-2 text-center">
+                                                        <ErrorIcon />
+                                                        <span className="text-sm text-red-400">Failed</span>
+                                                        {job.errorCategory && (
+                                                            <span className="text-xs bg-red-900/60 text-red-200 px-2 py-0.5 rounded">{ERROR_CATEGORY_LABELS[job.errorCategory]}</span>
+                                                        )}
+                                                        <div className="absolute inset-0 bg-black/80 opacity-0 group-hover:opacity-100 transition-opacity p-2 text-xs text-white overflow-auto flex items-center justify-center">
+                                                            {job.error}
+                                                        </div>
+                                                        {job.errorCategory === 'safety-blocked' && (
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleRewriteJob(job.id);
+                                                                }}
+                                                                disabled={rewritingJobIds.has(job.id)}
+                                                                className="relative z-10 text-xs bg-primary hover:bg-primary-hover text-white font-semibold px-2 py-1 rounded disabled:bg-gray-600"
+                                                            >
+                                                                {rewritingJobIds.has(job.id) ? 'Rewriting...' : 'Rewrite prompt safely'}
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                ) : null}
+                                            </div>
+                                        );
+                                    })}
                                 </div>
                             ) : (
                                 <div className="flex items-center justify-center h-40 bg-secondary rounded-lg">
@@ -342,9 +1400,65 @@ const App: React.FC = () => {
                                 </div>
                             )}
                         </div>
+
+                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
+                            <h2 className="text-xl font-semibold mb-4 text-text-main">Storyboard</h2>
+                            <StoryboardExportPanel
+                                settings={storyboard}
+                                onChange={setStoryboard}
+                                panelCount={successfulImages.length}
+                                onExport={handleExportStoryboard}
+                                exporting={storyboardExport}
+                            />
+                        </div>
+
+                        <div className="bg-card p-6 rounded-lg border border-border shadow-lg">
+                            <h2 className="text-xl font-semibold mb-4 text-text-main">Timing & Slideshow</h2>
+                            <TimelinePanel
+                                settings={timeline}
+                                onChange={setTimeline}
+                                totalSeconds={timelineFrames(slideshowSpans) / timeline.frameRate}
+                                imageCount={successfulImages.length}
+                                frameAspectRatio={slideshowAspectRatio}
+                                letterboxedCount={slideshowRatios.filter(ratio => ratio !== slideshowAspectRatio).length}
+                                onPreview={handlePreviewSlideshow}
+                            />
+                        </div>
                     </div>
                 </main>
             </div>
+            {compareJob && (
+                <VariantCompare job={compareJob} onChoose={handleChooseVariant} onClose={() => setCompareJobId(null)} />
+            )}
+            {editingJob && (
+                <ImageEditor
+                    job={editingJob}
+                    editModelLabel={editModel ? `${imageProvider.label}: ${editModel.label}` : null}
+                    onApply={handleApplyEdit}
+                    onSelectVersion={handleSelectVersion}
+                    onClose={() => setEditingJobId(null)}
+                />
+            )}
+            {previewPreset && (
+                <StylePresetPreview
+                    preset={previewPreset}
+                    jobs={previewJobs}
+                    onGenerate={handleGeneratePreview}
+                    onApply={() => {
+                        handleApplyPreset(previewPreset);
+                        setPreviewPreset(null);
+                    }}
+                    onClose={() => setPreviewPreset(null)}
+                />
+            )}
+            {slideshow && (
+                <SlideshowPreview
+                    slides={slideshow}
+                    options={{ aspectRatio: slideshowAspectRatio, frameRate: timeline.frameRate, kenBurns: timeline.kenBurns }}
+                    onDownload={(video) => downloadBlob(video, `${slugify(currentProject.name)}-slideshow.webm`)}
+                    onClose={() => setSlideshow(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,226 @@
+import { parseArgs } from "node:util";
+import type { AspectRatio, PromptDensity } from "../types.ts";
+import { DEFAULT_FILENAME_PATTERN } from "../services/exportService.ts";
+import { createGeminiClient, setDefaultGeminiBackend } from "../services/geminiService.ts";
+import { createGeminiProxyClient } from "../services/geminiProxyClient.ts";
+import { MAX_VARIANTS } from "../services/jobs.ts";
+import { getImageProvider, getPromptProvider, listImageProviders, listPromptProviders } from "../services/providerRegistry.ts";
+import { DEFAULT_RETRY_POLICY } from "../services/retryPolicy.ts";
+import { DEFAULT_PROMPT_DENSITY } from "../services/scriptChunker.ts";
+import { formatCost, loadPriceTable, summarizeUsage } from "../services/usageLedger.ts";
+import { DATASET_INPUT, runBatch, type BatchRunSettings } from "./batchRunner.ts";
+
+// Command-line batch runner:
+//   npm run batch -- script.txt --out ./renders --style "watercolor" --aspect-ratio 16:9
+//   npm run batch -- products.csv --out ./catalog --template "Studio photo of {product}"
+// Gemini is called directly with GEMINI_API_KEY, or through a proxy at GEMINI_PROXY_URL (for
+// example `PROXY_MOCK=1 npm run proxy` for a local mock endpoint).
+
+const USAGE = `Usage: npm run batch -- <script or dataset> --out <folder> [options]
+
+Input is a script (.txt, .md, .fountain, .fdx, .srt, .vtt) or a dataset (.csv, .tsv, .json).
+
+Options:
+  --out <folder>              Where images and manifest.json are written (required)
+  --provider <id>             Prompt and image provider (default: gemini)
+  --prompt-provider <id>      Prompt provider, when it differs
+  --prompt-model <id>         Prompt model (default: the provider's first)
+  --image-provider <id>       Image provider, when it differs
+  --model <id>                Image model (default: the provider's first)
+  --style <keywords>          Style keywords added to every prompt
+  --avoid <text>              Things to keep out of the images
+  --aspect-ratio <ratio>      1:1, 9:16 or 16:9 (default: 1:1)
+  --variants <n>              Images per prompt, 1-${MAX_VARIANTS} (default: 1)
+  --reference <image>         Reference image for models that accept one
+  --concurrency <n>           Parallel requests, 1-8 (default: 2)
+  --rpm <n>                   Requests per minute, 0 for no limit (default: 10)
+  --file-name <pattern>       Tokens: {index} {slug} {status} {model} {project} (default: ${DEFAULT_FILENAME_PATTERN})
+  --count <n>                 Scripts: ask for exactly n prompts
+  --words-per-image <n>       Scripts: one prompt per n words
+  --seconds-per-image <n>     Scripts: one prompt per n seconds of narration (with --wpm, default 150)
+  --template <text>           Datasets: prompt template with {column} placeholders (default: {prompt})
+  --variables <lines>         Datasets: "name: a, b" per line, expanded over every row
+  --dry-run                   Write the prompts to the manifest and print them, without generating images
+  --restart                   Ignore an existing manifest in the output folder and start over
+  --help                      Show this help
+
+Rerunning with the same input and output folder resumes: finished images are skipped.
+
+Environment: GEMINI_API_KEY, or GEMINI_PROXY_URL and PROXY_ACCESS_TOKEN for a proxy;
+OPENAI_API_KEY and OPENAI_BASE_URL for OpenAI-compatible providers; SD_API_URL for Stable Diffusion.`;
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '9:16', '16:9'];
+
+// Mistakes in the command line, answered with the usage text.
+const usageError = (message: string) => Object.assign(new Error(message), { isUsageError: true });
+
+const toInteger = (value: string | undefined, name: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw usageError(`--${name} must be a whole number from ${min} to ${max}.`);
+  }
+  return number;
+};
+
+function readDensity(values: Record<string, string | undefined>): PromptDensity {
+  const count = toInteger(values.count, 'count', 1, 500);
+  const wordsPerImage = toInteger(values['words-per-image'], 'words-per-image', 1, 100000);
+  const secondsPerImage = toInteger(values['seconds-per-image'], 'seconds-per-image', 1, 3600);
+  const wordsPerMinute = toInteger(values.wpm, 'wpm', 1, 1000) ?? DEFAULT_PROMPT_DENSITY.wordsPerMinute;
+  const modes = [count, wordsPerImage, secondsPerImage].filter(value => value !== undefined);
+  if (modes.length > 1) throw usageError("Use only one of --count, --words-per-image and --seconds-per-image.");
+  const density = { ...DEFAULT_PROMPT_DENSITY, wordsPerMinute };
+  if (count !== undefined) return { ...density, mode: 'count', count };
+  if (wordsPerImage !== undefined) return { ...density, mode: 'words', wordsPerImage };
+  if (secondsPerImage !== undefined) return { ...density, mode: 'seconds', secondsPerImage };
+  return density;
+}
+
+function readSettings(values: Record<string, string | undefined>): BatchRunSettings {
+  const providerId = values.provider ?? 'gemini';
+  const promptProviderId = values['prompt-provider'] ?? providerId;
+  const imageProviderId = values['image-provider'] ?? providerId;
+  if (!listPromptProviders().some(p => p.id === promptProviderId)) {
+    throw usageError(`Unknown prompt provider "${promptProviderId}". Available: ${listPromptProviders().map(p => p.id).join(', ')}.`);
+  }
+  if (!listImageProviders().some(p => p.id === imageProviderId)) {
+    throw usageError(`Unknown image provider "${imageProviderId}". Available: ${listImageProviders().map(p => p.id).join(', ')}.`);
+  }
+  const promptProvider = getPromptProvider(promptProviderId);
+  const imageProvider = getImageProvider(imageProviderId);
+  const promptModel = values['prompt-model'] ?? promptProvider.models[0].id;
+  const imageModel = values.model ?? imageProvider.models[0].id;
+  if (!promptProvider.models.some(m => m.id === promptModel)) {
+    throw usageError(`${promptProvider.label} has no prompt model "${promptModel}". Available: ${promptProvider.models.map(m => m.id).join(', ')}.`);
+  }
+  const model = imageProvider.models.find(m => m.id === imageModel);
+  if (!model) {
+    throw usageError(`${imageProvider.label} has no image model "${imageModel}". Available: ${imageProvider.models.map(m => m.id).join(', ')}.`);
+  }
+  const aspectRatio = (values['aspect-ratio'] ?? '1:1') as AspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio)) {
+    throw usageError(`--aspect-ratio must be one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  if (!model.capabilities.aspectRatios.includes(aspectRatio)) {
+    throw usageError(`${model.label} does not support ${aspectRatio}. Use ${model.capabilities.aspectRatios.join(', ')}.`);
+  }
+  return {
+    styleKeywords: values.style ?? '',
+    negativePrompt: values.avoid ?? '',
+    aspectRatio,
+    promptProviderId,
+    promptModel,
+    imageProviderId,
+    imageModel,
+    variantCount: toInteger(values.variants, 'variants', 1, MAX_VARIANTS) ?? 1,
+    concurrency: toInteger(values.concurrency, 'concurrency', 1, 8) ?? 2,
+    requestsPerMinute: toInteger(values.rpm, 'rpm', 0, 10000) ?? 10,
+    fileNamePattern: values['file-name'] ?? DEFAULT_FILENAME_PATTERN,
+    density: readDensity(values),
+    template: values.template ?? '',
+    variables: values.variables ?? '',
+  };
+}
+
+// Node has no browser key or same-origin proxy, so Gemini goes to Google or to an explicit proxy.
+function configureGemini(env: NodeJS.ProcessEnv) {
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (apiKey) {
+    setDefaultGeminiBackend(() => createGeminiClient(apiKey));
+  } else if (env.GEMINI_PROXY_URL) {
+    const proxy = { baseUrl: env.GEMINI_PROXY_URL, token: env.PROXY_ACCESS_TOKEN || null };
+    setDefaultGeminiBackend(() => createGeminiProxyClient(proxy));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string' },
+        provider: { type: 'string' },
+        'prompt-provider': { type: 'string' },
+        'prompt-model': { type: 'string' },
+        'image-provider': { type: 'string' },
+        model: { type: 'string' },
+        style: { type: 'string' },
+        avoid: { type: 'string' },
+        'aspect-ratio': { type: 'string' },
+        variants: { type: 'string' },
+        reference: { type: 'string' },
+        concurrency: { type: 'string' },
+        rpm: { type: 'string' },
+        'file-name': { type: 'string' },
+        count: { type: 'string' },
+        'words-per-image': { type: 'string' },
+        'seconds-per-image': { type: 'string' },
+        wpm: { type: 'string' },
+        template: { type: 'string' },
+        variables: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        restart: { type: 'boolean' },
+        help: { type: 'boolean' },
+      },
+    });
+  } catch (error: any) {
+    throw usageError(error.message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [inputPath] = positionals;
+  if (!inputPath || !values.out || positionals.length > 1) {
+    throw usageError("Give one input file and --out.");
+  }
+  const settings = readSettings(values as Record<string, string | undefined>);
+  const usesGemini = settings.imageProviderId === 'gemini' || (settings.promptProviderId === 'gemini' && !DATASET_INPUT.test(inputPath));
+  if (!configureGemini(process.env) && usesGemini) {
+    throw usageError("Set GEMINI_API_KEY, or GEMINI_PROXY_URL to go through a proxy, to use Gemini.");
+  }
+
+  // The first Ctrl+C lets running requests wind down and saves the manifest; a second one exits.
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error("Stopping; press Ctrl+C again to quit immediately.");
+    controller.abort();
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  const result = await runBatch({
+    inputPath,
+    outDir: values.out,
+    settings,
+    referenceImagePath: values.reference,
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    dryRun: !!values['dry-run'],
+    restart: !!values.restart,
+    log: message => console.error(message),
+    signal: controller.signal,
+  });
+
+  if (values['dry-run']) {
+    const width = String(result.manifest.jobs.length).length;
+    result.manifest.jobs.forEach((job, i) => console.log(`${String(i + 1).padStart(width, '0')}\t${job.prompt}`));
+    return 0;
+  }
+  const usage = summarizeUsage(result.manifest.usage, loadPriceTable()).total;
+  console.error(
+    `Done: ${result.succeeded} generated, ${result.skipped} already done, ${result.failed} failed, ${result.remaining} left.`
+    + ` ${usage.images} images in ${usage.calls} calls so far, about ${formatCost(usage.cost)}.`
+  );
+  if (result.haltReason) console.error(`Stopped early: ${result.haltReason}`);
+  return result.failed > 0 || result.remaining > 0 ? 1 : 0;
+}
+
+main().then(code => { process.exitCode = code; }, error => {
+  console.error(error?.isUsageError ? `${error.message}\n\n${USAGE}` : `Error: ${error?.message ?? error}`);
+  process.exitCode = error?.isUsageError ? 2 : 1;
+});
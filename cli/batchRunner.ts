@@ -0,0 +1,346 @@
+import { createHash, randomUUID } from "node:crypto";
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AspectRatio, ImageJob, PromptDensity, ReferenceImage, RetryPolicy, UsageEntry } from "../types.ts";
+import { expandBatch, parseDataset } from "../services/batchTemplate.ts";
+import { formatFileName } from "../services/exportService.ts";
+import { dataUrlToBytes, extensionForMimeType, getDataUrlMimeType } from "../services/fileUtils.ts";
+import { classifyError, HALTING_CATEGORIES } from "../services/generationErrors.ts";
+import { embedGenerationMetadata, metadataForJob } from "../services/imageMetadata.ts";
+import { createJobQueue } from "../services/jobQueue.ts";
+import { createImageJob, createTemplateJob } from "../services/jobs.ts";
+import { generateVariants, getImageProvider, getPromptProvider, resolveImageModel } from "../services/providerRegistry.ts";
+import { DEFAULT_CHUNK_OPTIONS, generateChunkedPrompts } from "../services/scriptChunker.ts";
+import { importScript } from "../services/scriptImport.ts";
+import { withMeteredRetry, type UsageMeter } from "../services/usageLedger.ts";
+
+// Runs a batch without the browser: prompts from a script or rows from a dataset, images through
+// the same job queue and providers as the app, and everything written to one output folder. The
+// manifest is rewritten after every job, so a rerun skips what is already on disk.
+
+export const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_FORMAT = 'bulk-image-generator/run';
+
+// Inputs read as datasets for template mode; everything else is a script.
+export const DATASET_INPUT = /\.(csv|tsv|json)$/i;
+
+const REFERENCE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+export interface BatchRunSettings {
+  styleKeywords: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  promptProviderId: string;
+  promptModel: string;
+  imageProviderId: string;
+  imageModel: string;
+  variantCount: number;
+  concurrency: number;
+  // 0 disables rate limiting.
+  requestsPerMinute: number;
+  fileNamePattern: string;
+  density: PromptDensity;
+  // Template mode, for dataset inputs. An empty template uses a "prompt" column.
+  template: string;
+  variables: string;
+}
+
+export interface BatchRunOptions {
+  inputPath: string;
+  outDir: string;
+  settings: BatchRunSettings;
+  referenceImagePath?: string;
+  retryPolicy: RetryPolicy;
+  // Writes the manifest with the prompts and stops before generating any image.
+  dryRun: boolean;
+  // Starts over instead of resuming the manifest already in outDir.
+  restart: boolean;
+  log: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+// Jobs as saved on disk. The images sit next to the manifest, so only their file names are kept.
+export type RunJob = Omit<ImageJob, 'src' | 'variants' | 'versions'> & { files: string[] };
+
+export interface RunManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: 1;
+  input: string;
+  // Covers the input and the settings that decide the prompts, so a changed input is not resumed.
+  sourceHash: string;
+  createdAt: string;
+  updatedAt: string;
+  settings: BatchRunSettings;
+  jobs: RunJob[];
+  usage: UsageEntry[];
+}
+
+export interface BatchRunResult {
+  manifest: RunManifest;
+  // Jobs that were already complete on disk when the run started.
+  skipped: number;
+  succeeded: number;
+  failed: number;
+  // Left for the next run: cancelled, or held back when the queue halted.
+  remaining: number;
+  haltReason: string | null;
+}
+
+const sourceHash = (text: string, settings: BatchRunSettings, isDataset: boolean): string =>
+  createHash('sha256')
+    .update(JSON.stringify(isDataset
+      ? [text, settings.template, settings.variables]
+      : [text, settings.promptProviderId, settings.promptModel, settings.density]))
+    .digest('hex');
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+export async function loadManifest(outDir: string): Promise<RunManifest | null> {
+  let text: string;
+  try {
+    text = await readFile(path.join(outDir, MANIFEST_FILE), 'utf8');
+  } catch {
+    return null;
+  }
+  const manifest = JSON.parse(text) as RunManifest;
+  if (manifest?.format !== MANIFEST_FORMAT || !Array.isArray(manifest.jobs)) {
+    throw new Error(`${path.join(outDir, MANIFEST_FILE)} is not a batch run manifest.`);
+  }
+  return manifest;
+}
+
+// Writes go through a temporary file and run one after another, so an interrupted write never
+// leaves a truncated manifest and a slow one never lands after a newer one.
+function createManifestWriter(outDir: string) {
+  const file = path.join(outDir, MANIFEST_FILE);
+  let chain: Promise<unknown> = Promise.resolve();
+  return (manifest: RunManifest): Promise<void> => {
+    const text = JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2);
+    const next = chain.then(async () => {
+      await writeFile(`${file}.tmp`, text);
+      await rename(`${file}.tmp`, file);
+    });
+    chain = next.catch(() => undefined);
+    return next;
+  };
+}
+
+async function readReferenceImage(file: string): Promise<ReferenceImage> {
+  const type = REFERENCE_TYPES[path.extname(file).toLowerCase()];
+  if (!type) throw new Error(`The reference image must be one of ${Object.keys(REFERENCE_TYPES).join(', ')}.`);
+  const bytes = await readFile(file);
+  return { file: new File([bytes], path.basename(file), { type }), base64: bytes.toString('base64') };
+}
+
+async function createJobs(
+  inputName: string,
+  text: string,
+  settings: BatchRunSettings,
+  retryPolicy: RetryPolicy,
+  meter: UsageMeter,
+  log: (message: string) => void
+): Promise<ImageJob[]> {
+  if (DATASET_INPUT.test(inputName)) {
+    const dataset = parseDataset(inputName, text);
+    const template = settings.template || (dataset.columns.some(column => column.toLowerCase() === 'prompt') ? '{prompt}' : '');
+    if (!template) {
+      throw new Error(`${inputName} has no "prompt" column; pass a template that uses its columns.`);
+    }
+    const { items, warnings } = expandBatch({ template, variables: settings.variables, dataset });
+    warnings.forEach(warning => log(`Warning: ${warning}`));
+    return items.map(item => createTemplateJob(item.prompt, item.overrides));
+  }
+
+  const { script, headings } = importScript(inputName, text);
+  if (!script) throw new Error(`${inputName} is empty.`);
+  const provider = getPromptProvider(settings.promptProviderId);
+  const scenes = await generateChunkedPrompts(
+    script,
+    settings.density,
+    (chunk, targetCount) => withMeteredRetry(
+      (onUsage) => provider.generatePrompts(chunk, settings.promptModel, { targetCount, onUsage }),
+      retryPolicy,
+      { kind: 'prompts', providerId: provider.id, model: settings.promptModel },
+      { meter }
+    ),
+    ({ completed, total }) => {
+      if (total > 1 && completed < total) log(`Generating prompts, part ${completed + 1} of ${total}...`);
+    },
+    DEFAULT_CHUNK_OPTIONS,
+    headings
+  );
+  return scenes.map(({ prompt, scene }) => createImageJob(prompt, scene));
+}
+
+const toRunJob = ({ src: _src, variants: _variants, versions: _versions, ...job }: ImageJob): RunJob => ({ ...job, files: [] });
+
+// Done means generated and still on disk; a deleted image is generated again.
+async function isComplete(job: RunJob, outDir: string): Promise<boolean> {
+  if (job.status !== 'success' || job.files.length === 0) return false;
+  const present = await Promise.all(job.files.map(file => exists(path.join(outDir, file))));
+  return present.every(Boolean);
+}
+
+export async function runBatch(options: BatchRunOptions): Promise<BatchRunResult> {
+  const { outDir, settings, retryPolicy, log } = options;
+  const inputName = path.basename(options.inputPath);
+  const text = await readFile(options.inputPath, 'utf8');
+  const hash = sourceHash(text, settings, DATASET_INPUT.test(inputName));
+  await mkdir(outDir, { recursive: true });
+  const saveManifest = createManifestWriter(outDir);
+
+  const runId = randomUUID();
+  const previous = options.restart ? null : await loadManifest(outDir);
+  if (previous && previous.sourceHash !== hash) {
+    throw new Error(`${outDir} holds a run of a different input or prompt settings. Use another output folder, or --restart to replace it.`);
+  }
+  let manifest: RunManifest;
+  if (previous) {
+    log(`Resuming ${previous.jobs.length} jobs from ${path.join(outDir, MANIFEST_FILE)}.`);
+    // Image settings may change between runs; they apply to whatever is still to do.
+    manifest = { ...previous, settings };
+  } else {
+    const now = new Date().toISOString();
+    const usage: UsageEntry[] = [];
+    const jobs = await createJobs(inputName, text, settings, retryPolicy, { runId, record: entry => usage.push(entry) }, log);
+    if (jobs.length === 0) throw new Error(`No prompts were created from ${inputName}.`);
+    manifest = { format: MANIFEST_FORMAT, version: 1, input: inputName, sourceHash: hash, createdAt: now, updatedAt: now, settings, jobs: jobs.map(toRunJob), usage };
+    log(`Created ${jobs.length} prompts from ${inputName}.`);
+  }
+  await saveManifest(manifest);
+
+  const complete = await Promise.all(manifest.jobs.map(job => isComplete(job, outDir)));
+  const todo = manifest.jobs.filter((job, i) => !complete[i] && job.prompt.trim() !== '');
+  const skipped = complete.filter(Boolean).length;
+  if (options.dryRun || todo.length === 0) {
+    return { manifest, skipped, succeeded: 0, failed: 0, remaining: todo.length, haltReason: null };
+  }
+
+  const provider = getImageProvider(settings.imageProviderId);
+  const reference = options.referenceImagePath ? await readReferenceImage(options.referenceImagePath) : null;
+  const model = resolveImageModel(provider, settings.imageModel, reference !== null);
+  const references = reference && model.capabilities.referenceImages ? [reference] : [];
+  if (reference && references.length === 0) log(`Warning: ${provider.label} does not accept reference images; it is ignored.`);
+  const referenceHashes = references.map(image => createHash('sha256').update(Buffer.from(image.base64, 'base64')).digest('hex'));
+
+  // File names stay unique across the run, including files kept from earlier runs.
+  const usedNames = new Set(manifest.jobs.flatMap((job, i) => complete[i] ? job.files : []));
+  const claimName = (base: string, src: string) => {
+    const extension = extensionForMimeType(getDataUrlMimeType(src));
+    let name = `${base}.${extension}`;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}.${extension}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  // A manifest that cannot be written stops the run, since images generated after that point
+  // would not be recorded and a rerun would pay for them again.
+  let jobs = manifest.jobs;
+  let writeError: Error | null = null;
+  const updateJob = (id: string, patch: Partial<RunJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    manifest = { ...manifest, jobs };
+    saveManifest(manifest).catch((error: Error) => {
+      if (writeError) return;
+      writeError = error;
+      log(`Could not write ${MANIFEST_FILE}: ${error.message}. Stopping.`);
+      queue.cancelAll();
+    });
+  };
+
+  let succeeded = 0;
+  let failed = 0;
+  const queue = createJobQueue<string[]>({
+    concurrency: settings.concurrency,
+    requestsPerMinute: settings.requestsPerMinute,
+    shouldHalt: (error: Error) => HALTING_CATEGORIES.includes(classifyError(error).category),
+    onEvent: (event) => {
+      const index = jobs.findIndex(job => job.id === event.id);
+      const label = `[${index + 1}/${jobs.length}]`;
+      switch (event.type) {
+        case 'start':
+          jobs = jobs.map(job => job.id === event.id ? { ...job, status: 'generating' } : job);
+          return;
+        case 'success':
+          succeeded++;
+          log(`${label} ${event.result.join(', ')}`);
+          updateJob(event.id, { status: 'success', files: event.result, error: undefined, errorCategory: undefined });
+          return;
+        case 'error': {
+          failed++;
+          const error = classifyError(event.error);
+          log(`${label} failed (${error.category}): ${error.message}`);
+          updateJob(event.id, { status: 'failed', files: [], error: error.message, errorCategory: error.category });
+          return;
+        }
+        case 'cancelled':
+          updateJob(event.id, { status: 'pending' });
+      }
+    },
+  });
+
+  todo.forEach(job => {
+    const styleKeywords = job.overrides?.styleKeywords ?? settings.styleKeywords;
+    const aspectRatio = job.overrides?.aspectRatio ?? settings.aspectRatio;
+    const negativePrompt = job.overrides?.negativePrompt ?? settings.negativePrompt;
+    const variants = job.variantCount ?? settings.variantCount;
+    jobs = jobs.map(j => j.id === job.id ? { ...j, providerId: provider.id, model: model.id, styleKeywords, negativePrompt, aspectRatio, referenceHashes } : j);
+    const meter: UsageMeter = { runId, jobId: job.id, record: entry => { manifest = { ...manifest, jobs, usage: [...manifest.usage, entry] }; } };
+    queue.enqueue(job.id, async (signal) => {
+      const images = await generateVariants(provider, model, {
+        prompt: job.prompt,
+        styleKeywords,
+        negativePrompt,
+        referenceImages: references,
+        characters: [],
+        aspectRatio,
+        signal,
+      }, variants, retryPolicy, meter);
+      jobs = jobs.map(j => j.id === job.id ? { ...j, generatedAt: Date.now() } : j);
+      const current = jobs.find(j => j.id === job.id)!;
+      const base = formatFileName(job.overrides?.fileName || settings.fileNamePattern, { ...current, status: 'success' }, jobs.indexOf(current), jobs.length, path.parse(inputName).name);
+      const files = images.map((src, v) => claimName(v === 0 ? base : `${base}_alt${v}`, src));
+      const generated = { ...current, src: images[0], variants: images };
+      await Promise.all(files.map((file, v) => writeFile(
+        path.join(outDir, file),
+        embedGenerationMetadata(dataUrlToBytes(images[v]), metadataForJob(generated, images[v], settings))
+      )));
+      return files;
+    });
+  });
+  manifest = { ...manifest, jobs };
+
+  const stop = () => queue.cancelAll();
+  options.signal?.addEventListener('abort', stop);
+  // Done when nothing is left, or when the circuit breaker has paused the queue and the jobs
+  // already running have finished.
+  await new Promise<void>(resolve => {
+    const check = () => {
+      const snapshot = queue.getSnapshot();
+      if (snapshot.state === 'idle' || (snapshot.state === 'paused' && snapshot.running === 0)) {
+        unsubscribe();
+        resolve();
+      }
+    };
+    const unsubscribe = queue.subscribe(check);
+    check();
+  });
+  options.signal?.removeEventListener('abort', stop);
+  if (writeError) {
+    throw new Error(`Could not write ${path.join(outDir, MANIFEST_FILE)}: ${writeError.message}`);
+  }
+
+  const haltReason = queue.getSnapshot().haltReason;
+  // Jobs the halted queue never started are left pending for the next run.
+  queue.cancelAll();
+  jobs = jobs.map(job => job.status === 'generating' || job.status === 'queued' ? { ...job, status: 'pending' } : job);
+  manifest = { ...manifest, jobs };
+  await saveManifest(manifest);
+  const remaining = jobs.filter(job => job.prompt.trim() !== '' && (job.status === 'pending' || job.status === 'cancelled')).length;
+  return { manifest, skipped, succeeded, failed, remaining, haltReason };
+}
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { BatchSettings } from '../types.ts';
+import { DATASET_ACCEPT, expandBatch, findPlaceholders, parseDataset, type BatchItem } from '../services/batchTemplate.ts';
+
+interface BatchTemplateEditorProps {
+    settings: BatchSettings;
+    onChange: (settings: BatchSettings) => void;
+    onCreateJobs: (items: BatchItem[]) => void;
+}
+
+const textareaClass = "w-full p-3 bg-secondary border border-border rounded-md focus:ring-2 focus:ring-primary focus:outline-none transition-all text-text-secondary placeholder:text-gray-500 text-sm";
+
+const PREVIEW_ROWS = 50;
+
+const BatchTemplateEditor: React.FC<BatchTemplateEditorProps> = ({ settings, onChange, onCreateJobs }) => {
+    const [importError, setImportError] = useState<string | null>(null);
+    const update = (patch: Partial<BatchSettings>) => onChange({ ...settings, ...patch });
+    const preview = useMemo(() => expandBatch(settings), [settings]);
+    const placeholders = useMemo(() => findPlaceholders(settings.template), [settings.template]);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            update({ dataset: parseDataset(file.name, await file.text()) });
+            setImportError(null);
+        } catch (err: any) {
+            setImportError(err.message || `Failed to import ${file.name}.`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="batch-template">Prompt Template</label>
+                <textarea
+                    id="batch-template"
+                    value={settings.template}
+                    onChange={(e) => update({ template: e.target.value })}
+                    placeholder="e.g. Studio photo of the {product} in {color} on a {background} background"
+                    className={`${textareaClass} h-28`}
+                />
+                {placeholders.length > 0 && (
+                    <p className="mt-1 text-xs text-text-secondary">Placeholders: {placeholders.map(name => `{${name}}`).join(' ')}</p>
+                )}
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-1">
+                    <span className="text-sm font-medium text-text-secondary">Dataset (Optional)</span>
+                    <label className="text-sm text-primary hover:text-primary-hover cursor-pointer whitespace-nowrap ml-2">
+                        Import CSV or JSON
+                        <input type="file" accept={DATASET_ACCEPT} onChange={handleImport} className="hidden" />
+                    </label>
+                </div>
+                {settings.dataset ? (
+                    <div className="flex justify-between items-start gap-2 p-2 bg-secondary border border-border rounded-md text-xs text-text-secondary">
+                        <span>
+                            <span className="text-text-main">{settings.dataset.fileName}</span> · {settings.dataset.rows.length} rows · columns: {settings.dataset.columns.join(', ')}
+                        </span>
+                        <button onClick={() => update({ dataset: null })} className="text-red-400 hover:text-red-300">Remove</button>
+                    </div>
+                ) : (
+                    <p className="text-xs text-text-secondary">One prompt per row. Columns named style, aspect_ratio or filename override those settings for the row.</p>
+                )}
+                {importError && <p className="mt-1 text-xs text-red-400">{importError}</p>}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="batch-variables">Expand Over (Optional)</label>
+                <textarea
+                    id="batch-variables"
+                    value={settings.variables}
+                    onChange={(e) => update({ variables: e.target.value })}
+                    placeholder={'color: red, navy, olive\nbackground: white, concrete'}
+                    className={`${textareaClass} h-20 font-mono`}
+                />
+                <p className="mt-1 text-xs text-text-secondary">Every row is repeated for each combination of these values.</p>
+            </div>
+
+            {preview.warnings.length > 0 && (
+                <ul className="text-xs text-yellow-400 list-disc list-inside">
+                    {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+            )}
+
+            {preview.items.length > 0 && (
+                <div>
+                    <p className="text-sm font-medium text-text-secondary mb-1">
+                        Preview ({preview.items.length} prompts{preview.items.length > PREVIEW_ROWS ? `, first ${PREVIEW_ROWS} shown` : ''})
+                    </p>
+                    <div className="max-h-60 overflow-y-auto border border-border rounded-md">
+                        <table className="w-full text-xs text-text-secondary">
+                            <tbody>
+                                {preview.items.slice(0, PREVIEW_ROWS).map((item, i) => (
+                                    <tr key={i} className="border-b border-border/50 align-top">
+                                        <td className="p-1 text-right w-8">{i + 1}</td>
+                                        <td className="p-1">
+                                            {item.prompt}
+                                            {(item.overrides.styleKeywords || item.overrides.negativePrompt || item.overrides.aspectRatio || item.overrides.fileName) && (
+                                                <span className="block text-text-secondary/70">
+                                                    {[
+                                                        item.overrides.styleKeywords && `style: ${item.overrides.styleKeywords}`,
+                                                        item.overrides.negativePrompt && `avoid: ${item.overrides.negativePrompt}`,
+                                                        item.overrides.aspectRatio && `ratio: ${item.overrides.aspectRatio}`,
+                                                        item.overrides.fileName && `file: ${item.overrides.fileName}`,
+                                                    ].filter(Boolean).join(' · ')}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <button
+                onClick={() => onCreateJobs(preview.items)}
+                disabled={preview.items.length === 0}
+                className="w-full bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-primary-hover disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+                {preview.items.length > 0 ? `Create ${preview.items.length} Prompts` : 'Create Prompts'}
+            </button>
+        </div>
+    );
+};
+
+export default BatchTemplateEditor;
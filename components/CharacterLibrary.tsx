@@ -0,0 +1,109 @@
+import React from 'react';
+import type { CharacterEntry } from '../types.ts';
+import { createCharacter } from '../services/characterLibrary.ts';
+import { fileToBase64 } from '../services/fileUtils.ts';
+
+interface CharacterLibraryProps {
+    characters: CharacterEntry[];
+    onChange: React.Dispatch<React.SetStateAction<CharacterEntry[]>>;
+    onError: (message: string) => void;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none placeholder:text-gray-500";
+
+const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ characters, onChange, onError }) => {
+    const update = (id: string, changes: (character: CharacterEntry) => Partial<CharacterEntry>) =>
+        onChange(prev => prev.map(character => character.id === id ? { ...character, ...changes(character) } : character));
+
+    const handleAddImages = async (character: CharacterEntry, files: File[]) => {
+        if (files.length === 0) return;
+        try {
+            const images = await Promise.all(files.map(async file => ({ file, base64: await fileToBase64(file) })));
+            update(character.id, current => ({ images: [...current.images, ...images] }));
+        } catch (err) {
+            console.error(err);
+            onError(`Failed to read the reference images for ${character.name || 'this character'}.`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            {characters.length === 0 && (
+                <p className="text-sm text-text-secondary italic">
+                    Add recurring characters or props. Their references are only attached to prompts that mention them.
+                </p>
+            )}
+            {characters.map(character => (
+                <div key={character.id} className="p-3 bg-secondary border border-border rounded-md space-y-2">
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            aria-label="Character name"
+                            value={character.name}
+                            onChange={(e) => update(character.id, () => ({ name: e.target.value }))}
+                            placeholder="Name, e.g. Maria"
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={() => onChange(prev => prev.filter(c => c.id !== character.id))}
+                            className="text-xs text-red-300 hover:text-red-200 px-2"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                    <input
+                        type="text"
+                        aria-label="Aliases"
+                        defaultValue={character.aliases.join(', ')}
+                        onBlur={(e) => update(character.id, () => ({ aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) }))}
+                        placeholder="Aliases, comma separated"
+                        className={inputClass}
+                    />
+                    <textarea
+                        aria-label="Description"
+                        value={character.description}
+                        onChange={(e) => update(character.id, () => ({ description: e.target.value }))}
+                        placeholder="Appearance, e.g. woman in her 30s, curly red hair, green raincoat"
+                        rows={2}
+                        className={inputClass}
+                    />
+                    <div className="flex flex-wrap gap-2 items-center">
+                        {character.images.map((image, i) => (
+                            <div key={i} className="relative h-14 w-14 rounded overflow-hidden border border-border">
+                                <img src={`data:${image.file.type};base64,${image.base64}`} alt={image.file.name} className="h-full w-full object-cover" />
+                                <button
+                                    onClick={() => update(character.id, current => ({ images: current.images.filter((_, j) => j !== i) }))}
+                                    className="absolute top-0 right-0 bg-black/70 text-white text-xs px-1"
+                                    aria-label={`Remove ${image.file.name}`}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                        <label className="h-14 w-14 rounded border border-dashed border-border flex items-center justify-center text-text-secondary text-xl cursor-pointer hover:bg-border">
+                            +
+                            <input
+                                type="file"
+                                accept="image/*"
+                                multiple
+                                className="hidden"
+                                onChange={(e) => {
+                                    handleAddImages(character, Array.from(e.target.files ?? []));
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                    </div>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange(prev => [...prev, createCharacter()])}
+                className="w-full bg-secondary border border-border text-text-main font-semibold py-2 px-4 rounded-md hover:bg-border transition-colors text-sm"
+            >
+                + Add Character
+            </button>
+        </div>
+    );
+};
+
+export default CharacterLibrary;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { getBrowserApiKey, getProxyToken, setBrowserApiKey, setProxyToken } from '../services/apiKeyStore.ts';
+
+const inputClass = "flex-1 p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none placeholder:text-gray-500";
+const buttonClass = "bg-secondary border border-border text-text-main font-semibold py-2 px-3 rounded-md hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm";
+
+// Chooses how Gemini is reached: through the server-side proxy (default) or directly with a key
+// that is kept in this browser's localStorage and never saved with a project.
+const GeminiAccessSettings: React.FC = () => {
+    const [hasOwnKey, setHasOwnKey] = useState(() => getBrowserApiKey() !== null);
+    const [keyDraft, setKeyDraft] = useState('');
+    const [tokenDraft, setTokenDraft] = useState(() => getProxyToken() ?? '');
+
+    const saveKey = () => {
+        setBrowserApiKey(keyDraft);
+        setHasOwnKey(getBrowserApiKey() !== null);
+        setKeyDraft('');
+    };
+
+    const forgetKey = () => {
+        setBrowserApiKey(null);
+        setHasOwnKey(false);
+    };
+
+    return (
+        <details className="mb-4 text-sm text-text-secondary">
+            <summary className="cursor-pointer select-none">
+                Gemini access: {hasOwnKey ? 'your own key (this browser only)' : 'server proxy'}
+            </summary>
+            <div className="mt-2 space-y-3 p-3 bg-secondary border border-border rounded-md">
+                {hasOwnKey ? (
+                    <div className="flex items-center gap-2">
+                        <span className="flex-1">Calls go straight to Google with the key saved in this browser.</span>
+                        <button onClick={forgetKey} className={buttonClass}>Forget key</button>
+                    </div>
+                ) : (
+                    <>
+                        <label className="block">
+                            <span className="block mb-1">Proxy access token (only if the proxy asks for one)</span>
+                            <input
+                                type="password"
+                                value={tokenDraft}
+                                onChange={(e) => setTokenDraft(e.target.value)}
+                                onBlur={() => setProxyToken(tokenDraft)}
+                                autoComplete="off"
+                                className={`${inputClass} w-full`}
+                            />
+                        </label>
+                        <div>
+                            <span className="block mb-1">Or bring your own Gemini API key</span>
+                            <div className="flex gap-2">
+                                <input
+                                    type="password"
+                                    value={keyDraft}
+                                    onChange={(e) => setKeyDraft(e.target.value)}
+                                    placeholder="AIza..."
+                                    autoComplete="off"
+                                    className={inputClass}
+                                />
+                                <button onClick={saveKey} disabled={!keyDraft.trim()} className={buttonClass}>Use my key</button>
+                            </div>
+                            <p className="mt-1 text-xs">The key stays in this browser's local storage. It is not sent to our server or included in projects and exports.</p>
+                        </div>
+                    </>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default GeminiAccessSettings;
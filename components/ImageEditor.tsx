@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageJob, ImageVersion } from '../types.ts';
+import { currentVersion } from '../services/jobs.ts';
+
+interface ImageEditorProps {
+    job: ImageJob;
+    // Label of the model edits go to, or null when the selected provider cannot edit.
+    editModelLabel: string | null;
+    onApply: (instruction: string, mask: string | undefined) => Promise<void>;
+    onSelectVersion: (versionId: string) => void;
+    onClose: () => void;
+}
+
+const BRUSH_SIZES = [16, 32, 64, 128];
+
+const versionLabel = (version: ImageVersion, index: number) =>
+    version.instruction ? `${index + 1}. ${version.instruction}` : `${index + 1}. Generated`;
+
+// Black and white PNG of the painted strokes: white where the image may change.
+function exportMask(overlay: HTMLCanvasElement): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    const context = canvas.getContext('2d')!;
+    const strokes = overlay.getContext('2d')!.getImageData(0, 0, overlay.width, overlay.height);
+    const mask = context.createImageData(overlay.width, overlay.height);
+    for (let i = 0; i < strokes.data.length; i += 4) {
+        const value = strokes.data[i + 3] > 0 ? 255 : 0;
+        mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = value;
+        mask.data[i + 3] = 255;
+    }
+    context.putImageData(mask, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ job, editModelLabel, onApply, onSelectVersion, onClose }) => {
+    const [instruction, setInstruction] = useState('');
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+    const [isErasing, setIsErasing] = useState(false);
+    const [hasMask, setHasMask] = useState(false);
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+    const versions = job.versions ?? [];
+    const current = currentVersion(job);
+    const compared = versions.find(version => version.id === compareId && version.src !== job.src);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // A new current image starts with an empty mask sized to it.
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const overlay = overlayRef.current;
+        if (!overlay) return;
+        overlay.width = e.currentTarget.naturalWidth;
+        overlay.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) * e.currentTarget.width) / rect.width,
+            y: ((e.clientY - rect.top) * e.currentTarget.height) / rect.height,
+        };
+    };
+
+    const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = e.currentTarget.getContext('2d');
+        if (!context || !lastPoint.current) return;
+        const point = toCanvasPoint(e);
+        // Brush sizes are in displayed pixels, so they feel the same at any image size.
+        const scale = e.currentTarget.width / e.currentTarget.getBoundingClientRect().width;
+        context.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+        context.strokeStyle = 'rgb(239, 68, 68)';
+        context.lineWidth = brushSize * scale;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.beginPath();
+        context.moveTo(lastPoint.current.x, lastPoint.current.y);
+        context.lineTo(point.x, point.y);
+        context.stroke();
+        lastPoint.current = point;
+        if (!isErasing) setHasMask(true);
+    };
+
+    const clearMask = () => {
+        const overlay = overlayRef.current;
+        overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+        setHasMask(false);
+    };
+
+    const handleApply = async () => {
+        if (!instruction.trim() || isApplying) return;
+        setIsApplying(true);
+        setError(null);
+        try {
+            await onApply(instruction.trim(), hasMask && overlayRef.current ? exportMask(overlayRef.current) : undefined);
+            setInstruction('');
+            setCompareId(null);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-lg shadow-lg max-w-5xl w-full max-h-full overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-text-main">Edit image</h2>
+                        <p className="text-sm text-text-secondary mt-1">{job.prompt}</p>
+                    </div>
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:text-text-main">Close</button>
+                </div>
+
+                <div className={`grid gap-4 ${compared ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {compared && (
+                        <div>
+                            <p className="text-xs text-text-secondary mb-1">{versionLabel(compared, versions.indexOf(compared))}</p>
+                            <img src={compared.src} alt="Compared version" className="w-full h-auto rounded-md" />
+                        </div>
+                    )}
+                    <div>
+                        {compared && <p className="text-xs text-text-secondary mb-1">Current</p>}
+                        <div className={`relative mx-auto ${compared ? '' : 'max-w-xl'}`}>
+                            <img src={job.src} alt={job.prompt} onLoad={handleImageLoad} className="w-full h-auto rounded-md" />
+                            <canvas
+                                ref={overlayRef}
+                                onPointerDown={(e) => {
+                                    e.currentTarget.setPointerCapture(e.pointerId);
+                                    lastPoint.current = toCanvasPoint(e);
+                                    paint(e);
+                                }}
+                                onPointerMove={paint}
+                                onPointerUp={() => { lastPoint.current = null; }}
+                                onPointerLeave={() => { lastPoint.current = null; }}
+                                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-text-secondary">
+                    <span>Paint the area to change, or leave it blank to edit the whole image.</span>
+                    <label className="flex items-center gap-2">
+                        Brush
+                        <select
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(Number(e.target.value))}
+                            className="p-1 bg-secondary border border-border rounded text-xs focus:ring-1 focus:ring-primary focus:outline-none"
+                        >
+                            {BRUSH_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={isErasing} onChange={(e) => setIsErasing(e.target.checked)} />
+                        Erase
+                    </label>
+                    <button onClick={clearMask} disabled={!hasMask} className="text-primary hover:text-primary-hover disabled:opacity-50 disabled:cursor-not-allowed">Clear mask</button>
+                </div>
+
+                <div className="mt-4 flex gap-2">
+                    <input
+                        type="text"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+                        placeholder="e.g. make it night, remove the extra person"
+                        disabled={!editModelLabel || isApplying}
+                        className="flex-1 p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none disabled:opacity-50"
+                    />
+                    <button
+                        onClick={handleApply}
+                        disabled={!editModelLabel || !instruction.trim() || isApplying}
+                        className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-primary-hover disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isApplying ? 'Editing...' : hasMask ? 'Edit masked area' : 'Edit image'}
+                    </button>
+                </div>
+                <p className="mt-1 text-xs text-text-secondary">
+                    {editModelLabel ? `Edits use ${editModelLabel} and are counted in usage.` : 'The selected image provider cannot edit images. Pick one that can under step 2.'}
+                </p>
+                {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+                {versions.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-sm font-semibold text-text-main mb-2">Versions</h3>
+                        <div className="flex gap-3 overflow-x-auto pb-2">
+                            {versions.map((version, i) => {
+                                const isCurrent = version === current;
+                                return (
+                                    <div key={version.id} className="w-32 shrink-0 text-xs text-text-secondary">
+                                        <button
+                                            onClick={() => setCompareId(isCurrent || version.id === compareId ? null : version.id)}
+                                            title={isCurrent ? 'Current version' : 'Compare with the current version'}
+                                            className={`block w-full rounded-md overflow-hidden border-2 ${isCurrent ? 'border-primary' : version.id === compareId ? 'border-text-secondary' : 'border-transparent hover:border-border'}`}
+                                        >
+                                            <img src={version.src} alt={versionLabel(version, i)} className="w-full h-20 object-cover" />
+                                        </button>
+                                        <p className="mt-1 truncate" title={versionLabel(version, i)}>
+                                            {versionLabel(version, i)}{version.masked && ' (masked)'}
+                                        </p>
+                                        {isCurrent ? (
+                                            <span className="text-primary font-semibold">Current</span>
+                                        ) : (
+                                            <button onClick={() => onSelectVersion(version.id)} className="text-primary hover:text-primary-hover">Make current</button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ImageEditor;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { getOpenAiApiKey, setOpenAiApiKey } from '../services/apiKeyStore.ts';
+
+const inputClass = "flex-1 p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none placeholder:text-gray-500";
+const buttonClass = "bg-secondary border border-border text-text-main font-semibold py-2 px-3 rounded-md hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm";
+
+// The OpenAI-compatible provider is called from the browser with a key kept in this browser's
+// localStorage. It is never built into the app or saved with a project.
+const OpenAiAccessSettings: React.FC = () => {
+    const [hasKey, setHasKey] = useState(() => getOpenAiApiKey() !== null);
+    const [keyDraft, setKeyDraft] = useState('');
+
+    const saveKey = () => {
+        setOpenAiApiKey(keyDraft);
+        setHasKey(getOpenAiApiKey() !== null);
+        setKeyDraft('');
+    };
+
+    const forgetKey = () => {
+        setOpenAiApiKey(null);
+        setHasKey(false);
+    };
+
+    return (
+        <details className="mb-4 text-sm text-text-secondary" open={!hasKey}>
+            <summary className="cursor-pointer select-none">
+                OpenAI access: {hasKey ? 'your own key (this browser only)' : 'no key set'}
+            </summary>
+            <div className="mt-2 p-3 bg-secondary border border-border rounded-md">
+                {hasKey ? (
+                    <div className="flex items-center gap-2">
+                        <span className="flex-1">Calls go straight to the OpenAI-compatible endpoint with the key saved in this browser.</span>
+                        <button onClick={forgetKey} className={buttonClass}>Forget key</button>
+                    </div>
+                ) : (
+                    <div>
+                        <span className="block mb-1">Your OpenAI API key</span>
+                        <div className="flex gap-2">
+                            <input
+                                type="password"
+                                value={keyDraft}
+                                onChange={(e) => setKeyDraft(e.target.value)}
+                                placeholder="sk-..."
+                                autoComplete="off"
+                                className={inputClass}
+                            />
+                            <button onClick={saveKey} disabled={!keyDraft.trim()} className={buttonClass}>Use my key</button>
+                        </div>
+                        <p className="mt-1 text-xs">The key stays in this browser's local storage. It is not sent to our server or included in projects and exports.</p>
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default OpenAiAccessSettings;
@@ -0,0 +1,133 @@
+import React from 'react';
+import type { AspectRatio, CropMode, OutputFormat, OverlayCorner, PostProcessSettings } from '../types.ts';
+import { targetDimensions } from '../services/postProcess.ts';
+
+interface PostProcessPanelProps {
+    settings: PostProcessSettings;
+    aspectRatio: AspectRatio;
+    onChange: (settings: PostProcessSettings) => void;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none disabled:opacity-50";
+const labelClass = "block text-sm font-medium text-text-secondary mb-1";
+
+const LONG_EDGES = [0, 1080, 1280, 1920, 2560, 3840];
+
+const CORNERS: { value: OverlayCorner; label: string }[] = [
+    { value: 'top-left', label: 'Top left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const PostProcessPanel: React.FC<PostProcessPanelProps> = ({ settings, aspectRatio, onChange }) => {
+    const update = (patch: Partial<PostProcessSettings>) => onChange({ ...settings, ...patch });
+    const disabled = !settings.enabled;
+    const target = settings.crop !== 'none' && settings.longEdge > 0 ? targetDimensions(aspectRatio, settings.longEdge) : null;
+
+    return (
+        <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                Process every generated image (originals are kept)
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass} htmlFor="pp-crop">Crop to {aspectRatio}</label>
+                    <select
+                        id="pp-crop"
+                        value={settings.crop}
+                        disabled={disabled}
+                        onChange={(e) => update({ crop: e.target.value as CropMode })}
+                        className={inputClass}
+                    >
+                        <option value="none">No crop</option>
+                        <option value="center">Centre crop</option>
+                        <option value="smart">Smart crop (keep detail)</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="pp-size">Longest Side</label>
+                    <select
+                        id="pp-size"
+                        value={settings.longEdge}
+                        disabled={disabled}
+                        onChange={(e) => update({ longEdge: Number(e.target.value) })}
+                        className={inputClass}
+                    >
+                        {LONG_EDGES.map(edge => <option key={edge} value={edge}>{edge === 0 ? 'Keep size' : `${edge}px`}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="pp-format">Format</label>
+                    <select
+                        id="pp-format"
+                        value={settings.format}
+                        disabled={disabled}
+                        onChange={(e) => update({ format: e.target.value as OutputFormat })}
+                        className={inputClass}
+                    >
+                        <option value="original">Keep format</option>
+                        <option value="png">PNG</option>
+                        <option value="jpeg">JPEG</option>
+                        <option value="webp">WebP</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="pp-quality">Quality ({settings.quality})</label>
+                    <input
+                        type="range"
+                        id="pp-quality"
+                        min={10}
+                        max={100}
+                        value={settings.quality}
+                        disabled={disabled || settings.format === 'png' || settings.format === 'original'}
+                        onChange={(e) => update({ quality: Number(e.target.value) })}
+                        className="w-full mt-2"
+                    />
+                </div>
+            </div>
+            {target && <p className="text-xs text-text-secondary">Output: {target.width} × {target.height} px</p>}
+
+            <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                    <label className={labelClass} htmlFor="pp-watermark">Watermark Text</label>
+                    <input
+                        type="text"
+                        id="pp-watermark"
+                        value={settings.watermark}
+                        disabled={disabled}
+                        placeholder="e.g. © Studio Name"
+                        onChange={(e) => update({ watermark: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="pp-corner">Position</label>
+                    <select
+                        id="pp-corner"
+                        value={settings.watermarkCorner}
+                        disabled={disabled || !settings.watermark.trim()}
+                        onChange={(e) => update({ watermarkCorner: e.target.value as OverlayCorner })}
+                        className={inputClass}
+                    >
+                        {CORNERS.map(corner => <option key={corner.value} value={corner.value}>{corner.label}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-text-secondary">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={settings.sceneNumber} disabled={disabled} onChange={(e) => update({ sceneNumber: e.target.checked })} />
+                    Scene number
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={settings.caption} disabled={disabled} onChange={(e) => update({ caption: e.target.checked })} />
+                    Caption from the source line or subtitle
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default PostProcessPanel;
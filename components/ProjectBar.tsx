@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import type { ProjectSummary } from '../types.ts';
+
+interface ProjectBarProps {
+    projects: ProjectSummary[];
+    currentId: string;
+    currentName: string;
+    saveStatus: 'saved' | 'saving' | 'error';
+    disabled: boolean;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onDuplicate: () => void;
+    onRename: (name: string) => void;
+    onDelete: () => void;
+}
+
+const ProjectBar: React.FC<ProjectBarProps> = ({
+    projects, currentId, currentName, saveStatus, disabled, onOpen, onNew, onDuplicate, onRename, onDelete,
+}) => {
+    const [draftName, setDraftName] = useState(currentName);
+
+    useEffect(() => setDraftName(currentName), [currentName]);
+
+    const commitName = () => {
+        const name = draftName.trim();
+        if (name && name !== currentName) {
+            onRename(name);
+        } else {
+            setDraftName(currentName);
+        }
+    };
+
+    const buttonClass = "bg-secondary border border-border text-text-main font-semibold py-2 px-3 rounded-md hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm";
+
+    return (
+        <div className="bg-card p-4 rounded-lg border border-border shadow-lg mb-8 flex flex-col sm:flex-row gap-3 sm:items-center">
+            <input
+                type="text"
+                aria-label="Project name"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitName}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="flex-1 p-2 bg-secondary border border-border rounded-md text-text-main font-semibold focus:ring-2 focus:ring-primary focus:outline-none"
+            />
+            <select
+                aria-label="Open project"
+                value={currentId}
+                disabled={disabled}
+                onChange={(e) => onOpen(e.target.value)}
+                className="p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+                {!projects.some(p => p.id === currentId) && <option value={currentId}>{currentName}</option>}
+                {projects.map(p => (
+                    <option key={p.id} value={p.id}>
+                        {p.name} ({p.jobCount} jobs, {new Date(p.updatedAt).toLocaleDateString()})
+                    </option>
+                ))}
+            </select>
+            <div className="flex gap-2">
+                <button onClick={onNew} disabled={disabled} className={buttonClass}>New</button>
+                <button onClick={onDuplicate} disabled={disabled} className={buttonClass}>Duplicate</button>
+                <button onClick={onDelete} disabled={disabled} className={`${buttonClass} text-red-300`}>Delete</button>
+            </div>
+            <span className={`text-xs ${saveStatus === 'error' ? 'text-red-400' : 'text-text-secondary'}`}>
+                {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'error' ? 'Not saved' : 'Saved'}
+            </span>
+        </div>
+    );
+};
+
+export default ProjectBar;
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import type { PromptDensity } from '../types.ts';
+import { chunkScript, countWords, targetPromptCount } from '../services/scriptChunker.ts';
+
+interface PromptDensityControlProps {
+    density: PromptDensity;
+    script: string;
+    onChange: (density: PromptDensity) => void;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none";
+
+const positive = (value: string) => Math.max(1, Math.floor(Number(value) || 1));
+
+const PromptDensityControl: React.FC<PromptDensityControlProps> = ({ density, script, onChange }) => {
+    const update = (patch: Partial<PromptDensity>) => onChange({ ...density, ...patch });
+    const words = useMemo(() => countWords(script), [script]);
+    const chunks = useMemo(() => chunkScript(script).length, [script]);
+    const target = targetPromptCount(script, density);
+
+    return (
+        <div className="mt-4 grid grid-cols-3 gap-2 items-end">
+            <div>
+                <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="density-mode">Prompts</label>
+                <select
+                    id="density-mode"
+                    value={density.mode}
+                    onChange={(e) => update({ mode: e.target.value as PromptDensity['mode'] })}
+                    className={inputClass}
+                >
+                    <option value="auto">Let the model decide</option>
+                    <option value="count">Exact count</option>
+                    <option value="words">One per N words</option>
+                    <option value="seconds">One per N seconds</option>
+                </select>
+            </div>
+            {density.mode === 'count' && (
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="density-count">Count</label>
+                    <input type="number" id="density-count" min={1} value={density.count} onChange={(e) => update({ count: positive(e.target.value) })} className={inputClass} />
+                </div>
+            )}
+            {density.mode === 'words' && (
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="density-words">Words per Image</label>
+                    <input type="number" id="density-words" min={1} value={density.wordsPerImage} onChange={(e) => update({ wordsPerImage: positive(e.target.value) })} className={inputClass} />
+                </div>
+            )}
+            {density.mode === 'seconds' && (
+                <>
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="density-seconds">Seconds per Image</label>
+                        <input type="number" id="density-seconds" min={1} value={density.secondsPerImage} onChange={(e) => update({ secondsPerImage: positive(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="density-wpm">Narration WPM</label>
+                        <input type="number" id="density-wpm" min={1} value={density.wordsPerMinute} onChange={(e) => update({ wordsPerMinute: positive(e.target.value) })} className={inputClass} />
+                    </div>
+                </>
+            )}
+            {words > 0 && (
+                <p className="col-span-3 text-xs text-text-secondary">
+                    {words} words{target !== undefined && ` · about ${target} prompts`}
+                    {chunks > 1 && ` · sent in ${chunks} parts`}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default PromptDensityControl;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import type { CharacterEntry, ImageJob } from '../types.ts';
+import { isActiveJob, MAX_VARIANTS } from '../services/jobs.ts';
+import { matchCharacters } from '../services/characterLibrary.ts';
+import { formatTimestamp } from '../services/scriptImport.ts';
+
+interface PromptListProps {
+    jobs: ImageJob[];
+    library: CharacterEntry[];
+    selectedId: string | null;
+    isVisible: (job: ImageJob) => boolean;
+    onSelect: (id: string) => void;
+    onEdit: (id: string, prompt: string) => void;
+    onMove: (fromIndex: number, toIndex: number) => void;
+    onDelete: (id: string) => void;
+    onInsert: (index: number) => void;
+    onRegenerate: (id: string) => void;
+    onSetCharacters: (id: string, characterIds: string[] | undefined) => void;
+    defaultVariantCount: number;
+    onSetVariantCount: (id: string, count: number | undefined) => void;
+    // Seconds on screen per job from the timeline settings, shown when no time is set by hand.
+    durations: number[];
+    onSetDuration: (id: string, seconds: number | undefined) => void;
+}
+
+const STATUS_STYLES: Record<ImageJob['status'], string> = {
+    pending: 'text-text-secondary',
+    queued: 'text-text-secondary',
+    generating: 'text-primary',
+    success: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-yellow-400',
+};
+
+const iconButtonClass = "text-xs text-text-secondary hover:text-text-main disabled:opacity-40 disabled:cursor-not-allowed";
+
+interface PromptRowProps {
+    job: ImageJob;
+    library: CharacterEntry[];
+    index: number;
+    isSelected: boolean;
+    isDragTarget: boolean;
+    onSelect: () => void;
+    onEdit: (prompt: string) => void;
+    onDelete: () => void;
+    onInsertBelow: () => void;
+    onRegenerate: () => void;
+    onSetCharacters: (characterIds: string[] | undefined) => void;
+    defaultVariantCount: number;
+    onSetVariantCount: (count: number | undefined) => void;
+    defaultDuration: number;
+    onSetDuration: (seconds: number | undefined) => void;
+    onDragStart: () => void;
+    onDragOver: () => void;
+    onDrop: () => void;
+    onDragEnd: () => void;
+}
+
+const PromptRow: React.FC<PromptRowProps> = ({
+    job, library, index, isSelected, isDragTarget, onSelect, onEdit, onDelete, onInsertBelow, onRegenerate, onSetCharacters,
+    defaultVariantCount, onSetVariantCount, defaultDuration, onSetDuration, onDragStart, onDragOver, onDrop, onDragEnd,
+}) => {
+    const [isEditing, setIsEditing] = useState(job.prompt === '');
+    const [isPickingCharacters, setIsPickingCharacters] = useState(false);
+    const matched = library.length > 0 ? matchCharacters(job, library) : [];
+
+    const toggleCharacter = (characterId: string) => {
+        const current = matched.map(c => c.id);
+        onSetCharacters(current.includes(characterId) ? current.filter(id => id !== characterId) : [...current, characterId]);
+    };
+    const [draft, setDraft] = useState(job.prompt);
+    const active = isActiveJob(job);
+
+    const startEditing = () => {
+        setDraft(job.prompt);
+        setIsEditing(true);
+    };
+
+    const commit = () => {
+        const prompt = draft.trim();
+        if (prompt) onEdit(prompt);
+        setIsEditing(false);
+    };
+
+    return (
+        <div
+            draggable={!isEditing}
+            onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                onDragStart();
+            }}
+            onDragOver={(e) => {
+                e.preventDefault();
+                onDragOver();
+            }}
+            onDrop={(e) => {
+                e.preventDefault();
+                onDrop();
+            }}
+            onDragEnd={onDragEnd}
+            className={`border-b border-border/50 pb-2 rounded ${isSelected ? 'bg-primary/10' : ''} ${isDragTarget ? 'border-t-2 border-t-primary' : ''}`}
+        >
+            <div className="flex items-start gap-2">
+                <span className="cursor-move select-none text-text-secondary text-sm" title="Drag to reorder">⋮⋮</span>
+                <span className="text-sm text-text-secondary">{index + 1}.</span>
+                {isEditing ? (
+                    <textarea
+                        autoFocus
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onBlur={commit}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                commit();
+                            } else if (e.key === 'Escape') {
+                                setIsEditing(false);
+                            }
+                        }}
+                        className="flex-1 p-1 bg-background border border-border rounded text-sm text-text-main focus:ring-2 focus:ring-primary focus:outline-none"
+                        rows={3}
+                    />
+                ) : (
+                    <p onClick={onSelect} className="flex-1 text-sm text-text-secondary cursor-pointer">{job.prompt}</p>
+                )}
+            </div>
+            {job.scene && (
+                <div className="flex flex-wrap gap-1 mt-1 pl-8 text-xs">
+                    <span className="bg-background text-text-secondary px-1.5 rounded">Scene {job.scene.sceneNumber}</span>
+                    {job.scene.sourceHeading && <span className="bg-background text-text-secondary px-1.5 rounded">🎬 {job.scene.sourceHeading}</span>}
+                    {job.scene.timeRange && (
+                        <span className="bg-background text-text-secondary px-1.5 rounded">
+                            ⏱ {formatTimestamp(job.scene.timeRange.start)} – {formatTimestamp(job.scene.timeRange.end)}
+                        </span>
+                    )}
+                    {job.scene.shotType && <span className="bg-background text-text-secondary px-1.5 rounded">{job.scene.shotType}</span>}
+                    {job.scene.setting && <span className="bg-background text-text-secondary px-1.5 rounded">📍 {job.scene.setting}</span>}
+                    {job.scene.characters.map(name => (
+                        <span key={name} className="bg-background text-text-secondary px-1.5 rounded">{name}</span>
+                    ))}
+                </div>
+            )}
+            {library.length > 0 && (
+                <div className="mt-1 pl-8 text-xs text-text-secondary">
+                    <span>
+                        References: {matched.length > 0 ? matched.map(c => c.name || 'Unnamed').join(', ') : 'none'}
+                        {' '}({job.characterIds ? 'manual' : 'auto'})
+                    </span>
+                    <button onClick={() => setIsPickingCharacters(!isPickingCharacters)} className={`${iconButtonClass} ml-2`}>
+                        {isPickingCharacters ? 'Done' : 'Change'}
+                    </button>
+                    {job.characterIds && (
+                        <button onClick={() => onSetCharacters(undefined)} className={`${iconButtonClass} ml-2`}>Auto</button>
+                    )}
+                    {isPickingCharacters && (
+                        <div className="flex flex-wrap gap-3 mt-1">
+                            {library.map(character => (
+                                <label key={character.id} className="flex items-center gap-1 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={matched.some(c => c.id === character.id)}
+                                        onChange={() => toggleCharacter(character.id)}
+                                    />
+                                    {character.name || 'Unnamed'}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            <div className="flex items-center gap-3 mt-1 pl-8">
+                <span className={`text-xs ${STATUS_STYLES[job.status]}`}>
+                    {job.status}{job.stale && ' (stale)'}
+                </span>
+                <button onClick={startEditing} disabled={active || isEditing} className={iconButtonClass}>Edit</button>
+                <button onClick={onRegenerate} disabled={active || !job.prompt} className={iconButtonClass}>Regenerate</button>
+                <button onClick={onInsertBelow} className={iconButtonClass}>Insert below</button>
+                <select
+                    aria-label="Variants for this prompt"
+                    value={job.variantCount ?? ''}
+                    onChange={(e) => onSetVariantCount(e.target.value ? Number(e.target.value) : undefined)}
+                    className="text-xs bg-background border border-border rounded text-text-secondary"
+                >
+                    <option value="">{defaultVariantCount} variant{defaultVariantCount === 1 ? '' : 's'} (run)</option>
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                        <option key={n} value={n}>{n} variant{n === 1 ? '' : 's'}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    aria-label="Seconds on screen"
+                    title="Seconds on screen in video exports. Leave empty to use the timing settings."
+                    min={0.5}
+                    step={0.5}
+                    value={job.duration ?? ''}
+                    placeholder={`${Number(defaultDuration.toFixed(1))}s`}
+                    onChange={(e) => onSetDuration(Number(e.target.value) > 0 ? Number(e.target.value) : undefined)}
+                    className="w-16 px-1 text-xs bg-background border border-border rounded text-text-secondary"
+                />
+                <button onClick={onDelete} className={`${iconButtonClass} hover:text-red-300`}>Delete</button>
+            </div>
+        </div>
+    );
+};
+
+const PromptList: React.FC<PromptListProps> = ({
+    jobs, library, selectedId, isVisible, onSelect, onEdit, onMove, onDelete, onInsert, onRegenerate, onSetCharacters,
+    defaultVariantCount, onSetVariantCount, durations, onSetDuration,
+}) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    return (
+        <div className="max-h-96 overflow-y-auto space-y-2 p-3 bg-secondary rounded-md border border-border">
+            {jobs.map((job, i) => isVisible(job) && (
+                <PromptRow
+                    key={job.id}
+                    job={job}
+                    library={library}
+                    index={i}
+                    isSelected={job.id === selectedId}
+                    onSelect={() => onSelect(job.id)}
+                    isDragTarget={dragIndex !== null && overIndex === i && dragIndex !== i}
+                    onEdit={(prompt) => onEdit(job.id, prompt)}
+                    onDelete={() => onDelete(job.id)}
+                    onInsertBelow={() => onInsert(i + 1)}
+                    onRegenerate={() => onRegenerate(job.id)}
+                    onSetCharacters={(characterIds) => onSetCharacters(job.id, characterIds)}
+                    defaultVariantCount={defaultVariantCount}
+                    onSetVariantCount={(count) => onSetVariantCount(job.id, count)}
+                    defaultDuration={durations[i]}
+                    onSetDuration={(seconds) => onSetDuration(job.id, seconds)}
+                    onDragStart={() => setDragIndex(i)}
+                    onDragOver={() => setOverIndex(i)}
+                    onDrop={() => {
+                        if (dragIndex !== null) onMove(dragIndex, i);
+                        endDrag();
+                    }}
+                    onDragEnd={endDrag}
+                />
+            ))}
+            <button onClick={() => onInsert(jobs.length)} className="w-full text-sm text-primary hover:text-primary-hover py-1">
+                + Add prompt
+            </button>
+        </div>
+    );
+};
+
+export default PromptList;
@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+import type { SceneMetadata } from '../types.ts';
+
+interface ScriptHighlightProps {
+    script: string;
+    scene: SceneMetadata;
+    onClose: () => void;
+}
+
+const ScriptHighlight: React.FC<ScriptHighlightProps> = ({ script, scene, onClose }) => {
+    const markRef = useRef<HTMLElement>(null);
+    const { sourceStart, sourceEnd } = scene;
+    // Offsets go out of date once the script is edited after the breakdown.
+    const isLocated = sourceStart !== undefined && sourceEnd !== undefined && sourceEnd <= script.length
+        && script.slice(sourceStart, sourceEnd).trim() !== '';
+
+    useEffect(() => {
+        markRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [sourceStart, sourceEnd]);
+
+    return (
+        <div className="mt-4">
+            <div className="flex justify-between items-center mb-1">
+                <span className="text-sm font-medium text-text-secondary">Source for scene {scene.sceneNumber}</span>
+                <button onClick={onClose} className="text-xs text-text-secondary hover:text-text-main">Close</button>
+            </div>
+            {isLocated ? (
+                <div className="max-h-48 overflow-y-auto p-3 bg-secondary border border-border rounded-md text-sm text-text-secondary whitespace-pre-wrap">
+                    {script.slice(0, sourceStart)}
+                    <mark ref={markRef} className="bg-yellow-500/40 text-text-main rounded px-0.5">{script.slice(sourceStart, sourceEnd)}</mark>
+                    {script.slice(sourceEnd)}
+                </div>
+            ) : (
+                <p className="p-3 bg-secondary border border-border rounded-md text-sm text-text-secondary italic">
+                    {scene.sourceExcerpt ? `"${scene.sourceExcerpt}" (not found in the current script)` : 'No source passage was recorded for this scene.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ScriptHighlight;
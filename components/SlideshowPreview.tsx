@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/abortUtils.ts';
+import { formatDuration } from '../services/timeline.ts';
+import { recordSlideshow, type Slide, type SlideshowOptions } from '../services/slideshow.ts';
+
+interface SlideshowPreviewProps {
+    slides: Slide[];
+    options: SlideshowOptions;
+    onDownload: (video: Blob) => void;
+    onClose: () => void;
+}
+
+const SlideshowPreview: React.FC<SlideshowPreviewProps> = ({ slides, options, onDownload, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [elapsed, setElapsed] = useState(0);
+    const [video, setVideo] = useState<{ blob: Blob; url: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const totalSeconds = slides.reduce((sum, slide) => sum + slide.frames, 0) / options.frameRate;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // Records once per opened preview; closing it stops the recording.
+    useEffect(() => {
+        const controller = new AbortController();
+        let url: string | null = null;
+        recordSlideshow(canvasRef.current!, slides, options, controller.signal, setElapsed)
+            .then(blob => {
+                url = URL.createObjectURL(blob);
+                setVideo({ blob, url });
+            })
+            .catch((err: any) => {
+                if (!isAbortError(err)) setError(err.message);
+            });
+        return () => {
+            controller.abort();
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, []);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-lg shadow-lg max-w-5xl w-full max-h-full overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-text-main">Slideshow Preview</h2>
+                        <p className="text-sm text-text-secondary mt-1">
+                            {video
+                                ? `${slides.length} images, ${formatDuration(totalSeconds)}.`
+                                : `Recording ${formatDuration(elapsed)} of ${formatDuration(totalSeconds)}. Keep this tab visible until it finishes.`}
+                        </p>
+                    </div>
+                    <div className="flex gap-4">
+                        {video && <button onClick={() => onDownload(video.blob)} className="text-sm text-primary hover:text-primary-hover">Download WebM</button>}
+                        <button onClick={onClose} className="text-sm text-text-secondary hover:text-text-main">Close</button>
+                    </div>
+                </div>
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+                <canvas ref={canvasRef} className={video || error ? 'hidden' : 'w-full h-auto rounded-md bg-black'} />
+                {video && <video src={video.url} controls autoPlay className="w-full h-auto rounded-md bg-black" />}
+            </div>
+        </div>
+    );
+};
+
+export default SlideshowPreview;
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { StoryboardSettings } from '../types.ts';
+import { PANELS_PER_PAGE } from '../services/storyboard.ts';
+
+interface StoryboardExportPanelProps {
+    settings: StoryboardSettings;
+    onChange: (settings: StoryboardSettings) => void;
+    panelCount: number;
+    onExport: (format: 'html' | 'pdf') => void;
+    // The format being built, while the export runs.
+    exporting: 'html' | 'pdf' | null;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none";
+const labelClass = "block text-sm font-medium text-text-secondary mb-1";
+const buttonClass = "w-full bg-secondary border border-border text-text-main font-bold py-2 px-4 rounded-md hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm";
+
+const StoryboardExportPanel: React.FC<StoryboardExportPanelProps> = ({ settings, onChange, panelCount, onExport, exporting }) => {
+    const update = (patch: Partial<StoryboardSettings>) => onChange({ ...settings, ...patch });
+    const pageCount = Math.ceil(panelCount / settings.panelsPerPage);
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass} htmlFor="sb-panels">Panels per Page</label>
+                    <select
+                        id="sb-panels"
+                        value={settings.panelsPerPage}
+                        onChange={(e) => update({ panelsPerPage: Number(e.target.value) })}
+                        className={inputClass}
+                    >
+                        {PANELS_PER_PAGE.map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="sb-size">Paper</label>
+                    <select
+                        id="sb-size"
+                        value={settings.pageSize}
+                        onChange={(e) => update({ pageSize: e.target.value as StoryboardSettings['pageSize'] })}
+                        className={inputClass}
+                    >
+                        <option value="a4">A4</option>
+                        <option value="letter">US Letter</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass} htmlFor="sb-orientation">Orientation</label>
+                    <select
+                        id="sb-orientation"
+                        value={settings.orientation}
+                        onChange={(e) => update({ orientation: e.target.value as StoryboardSettings['orientation'] })}
+                        className={inputClass}
+                    >
+                        <option value="landscape">Landscape</option>
+                        <option value="portrait">Portrait</option>
+                    </select>
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                <input type="checkbox" checked={settings.includeExcerpt} onChange={(e) => update({ includeExcerpt: e.target.checked })} />
+                Show the script excerpt or dialogue under each prompt
+            </label>
+            <div className="flex gap-2">
+                <button onClick={() => onExport('html')} disabled={panelCount === 0 || exporting !== null} className={buttonClass}>
+                    {exporting === 'html' ? 'Building...' : 'Download HTML'}
+                </button>
+                <button onClick={() => onExport('pdf')} disabled={panelCount === 0 || exporting !== null} className={buttonClass}>
+                    {exporting === 'pdf' ? 'Building...' : 'Download PDF'}
+                </button>
+            </div>
+            <p className="text-xs text-text-secondary">
+                {panelCount > 0
+                    ? `${panelCount} panel${panelCount === 1 ? '' : 's'} on ${pageCount} page${pageCount === 1 ? '' : 's'}, in prompt order. Only successful images are included.`
+                    : 'Generate images to build a storyboard.'}
+            </p>
+        </div>
+    );
+};
+
+export default StoryboardExportPanel;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageJob, StylePreset } from '../types.ts';
+import { isAbortError } from '../services/abortUtils.ts';
+
+interface StylePresetPreviewProps {
+    preset: StylePreset;
+    jobs: ImageJob[];
+    // One image for the job with the preset's settings. Nothing is saved to the job.
+    onGenerate: (job: ImageJob, signal: AbortSignal) => Promise<string>;
+    onApply: () => void;
+    onClose: () => void;
+}
+
+interface PreviewResult {
+    src?: string;
+    error?: string;
+}
+
+const StylePresetPreview: React.FC<StylePresetPreviewProps> = ({ preset, jobs, onGenerate, onApply, onClose }) => {
+    const [results, setResults] = useState<Record<string, PreviewResult>>({});
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // One at a time, so a failing provider or an exhausted budget shows up before spending more.
+    // Closing the preview cancels whatever is still running.
+    useEffect(() => {
+        const controller = new AbortController();
+        (async () => {
+            for (const job of jobs) {
+                if (controller.signal.aborted) return;
+                try {
+                    const src = await onGenerate(job, controller.signal);
+                    setResults(prev => ({ ...prev, [job.id]: { src } }));
+                } catch (err: any) {
+                    if (isAbortError(err) || controller.signal.aborted) return;
+                    setResults(prev => ({ ...prev, [job.id]: { error: err.message } }));
+                }
+            }
+        })();
+        return () => controller.abort();
+        // Runs once per opened preview; later changes to the callback do not restart it.
+    }, []);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-lg shadow-lg max-w-5xl w-full max-h-full overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-text-main">Preview of "{preset.name}"</h2>
+                        <p className="text-sm text-text-secondary mt-1">
+                            {[preset.styleKeywords, preset.negativePrompt && `avoid: ${preset.negativePrompt}`, preset.aspectRatio, `${preset.imageProviderId} ${preset.imageModel}`].filter(Boolean).join(' · ')}
+                        </p>
+                    </div>
+                    <div className="flex gap-4">
+                        <button onClick={onApply} className="text-sm text-primary hover:text-primary-hover">Apply preset</button>
+                        <button onClick={onClose} className="text-sm text-text-secondary hover:text-text-main">Close</button>
+                    </div>
+                </div>
+                <div className="space-y-6">
+                    {jobs.map(job => {
+                        const result = results[job.id];
+                        return (
+                            <div key={job.id}>
+                                <p className="text-sm text-text-secondary mb-2">{job.prompt}</p>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <p className="text-xs text-text-secondary mb-1">Current</p>
+                                        {job.src ? (
+                                            <img src={job.src} alt="Current image" className="w-full h-auto rounded-md" />
+                                        ) : (
+                                            <div className="aspect-square rounded-md bg-secondary flex items-center justify-center text-xs text-text-secondary">Not generated yet</div>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-text-secondary mb-1">With preset</p>
+                                        {result?.src ? (
+                                            <img src={result.src} alt="Preset preview" className="w-full h-auto rounded-md" />
+                                        ) : (
+                                            <div className="aspect-square rounded-md bg-secondary flex items-center justify-center p-4 text-center text-xs text-text-secondary">
+                                                {result?.error ? <span className="text-red-400">{result.error}</span> : 'Generating...'}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="mt-4 text-xs text-text-secondary">Preview images are counted in usage but are not kept.</p>
+            </div>
+        </div>
+    );
+};
+
+export default StylePresetPreview;
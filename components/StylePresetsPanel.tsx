@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { StylePreset } from '../types.ts';
+import { downloadBlob } from '../services/fileUtils.ts';
+import { exportStylePresets, importStylePresets, PRESET_PREVIEW_COUNT } from '../services/stylePresets.ts';
+
+interface StylePresetsPanelProps {
+    presets: StylePreset[];
+    // Saves the list; throws when it cannot be stored.
+    onChange: (presets: StylePreset[]) => void;
+    // A preset holding the current settings under the given name.
+    createFromCurrent: (name: string) => StylePreset;
+    onApply: (preset: StylePreset) => void;
+    onPreview: (preset: StylePreset) => void;
+    canPreview: boolean;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none";
+
+const StylePresetsPanel: React.FC<StylePresetsPanelProps> = ({ presets, onChange, createFromCurrent, onApply, onPreview, canPreview }) => {
+    const [selectedId, setSelectedId] = useState('');
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const selected = presets.find(preset => preset.id === selectedId);
+
+    const save = (next: StylePreset[]) => {
+        try {
+            onChange(next);
+            setError(null);
+            return true;
+        } catch (err: any) {
+            setError(err.message);
+            return false;
+        }
+    };
+
+    // Saving under an existing name updates that preset.
+    const handleSave = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const existing = presets.find(preset => preset.name === trimmed);
+        const preset = { ...createFromCurrent(trimmed), ...(existing ? { id: existing.id } : {}) };
+        const next = existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset];
+        if (save(next)) {
+            setSelectedId(preset.id);
+            setName('');
+        }
+    };
+
+    const handleDelete = () => {
+        if (!selected || !window.confirm(`Delete the preset "${selected.name}"?`)) return;
+        if (save(presets.filter(preset => preset.id !== selected.id))) setSelectedId('');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            save(importStylePresets(file.name, await file.text(), presets));
+        } catch (err: any) {
+            setError(err.message || `Failed to import ${file.name}.`);
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([exportStylePresets(presets)], { type: 'application/json' }), 'style-presets.json');
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-secondary" htmlFor="style-preset">Style Preset</label>
+            <div className="flex gap-2">
+                <select id="style-preset" value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={inputClass}>
+                    <option value="">{presets.length > 0 ? 'Choose a preset...' : 'No saved presets'}</option>
+                    {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+                <button
+                    onClick={() => selected && onApply(selected)}
+                    disabled={!selected}
+                    className="bg-primary text-white text-sm font-semibold py-2 px-3 rounded-md hover:bg-primary-hover disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    Apply
+                </button>
+                <button onClick={handleDelete} disabled={!selected} className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed">Delete</button>
+            </div>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    aria-label="Preset name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    placeholder="Name for the current settings"
+                    className={inputClass}
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!name.trim()}
+                    className="text-sm text-primary hover:text-primary-hover whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Save as preset
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm">
+                <button
+                    onClick={() => selected && onPreview(selected)}
+                    disabled={!selected || !canPreview}
+                    title={canPreview ? undefined : 'Create prompts first'}
+                    className="text-primary hover:text-primary-hover disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Preview on first {PRESET_PREVIEW_COUNT} prompts
+                </button>
+                <button onClick={handleExport} disabled={presets.length === 0} className="text-primary hover:text-primary-hover disabled:opacity-50 disabled:cursor-not-allowed">Export</button>
+                <label className="text-primary hover:text-primary-hover cursor-pointer">
+                    Import
+                    <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                </label>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default StylePresetsPanel;
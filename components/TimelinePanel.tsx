@@ -0,0 +1,107 @@
+import React from 'react';
+import type { AspectRatio, TimelineSettings } from '../types.ts';
+import { FRAME_RATES, formatDuration } from '../services/timeline.ts';
+
+interface TimelinePanelProps {
+    settings: TimelineSettings;
+    onChange: (settings: TimelineSettings) => void;
+    // Running time of the successful images, in seconds.
+    totalSeconds: number;
+    imageCount: number;
+    // Frame of the timelines and the preview, and how many images have a different aspect ratio.
+    frameAspectRatio: AspectRatio;
+    letterboxedCount: number;
+    onPreview: () => void;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none";
+const labelClass = "block text-sm font-medium text-text-secondary mb-1";
+const buttonClass = "w-full bg-secondary border border-border text-text-main font-bold py-2 px-4 rounded-md hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm";
+
+const MODE_HINTS: Record<TimelineSettings['mode'], string> = {
+    fixed: 'Every image stays on screen for the same time.',
+    words: 'Each image lasts as long as its script excerpt takes to read aloud.',
+    subtitles: 'Each image runs from its subtitle cue to the next one. Needs a subtitle import.',
+};
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ settings, onChange, totalSeconds, imageCount, frameAspectRatio, letterboxedCount, onPreview }) => {
+    const update = (patch: Partial<TimelineSettings>) => onChange({ ...settings, ...patch });
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass} htmlFor="tl-mode">Timing</label>
+                    <select
+                        id="tl-mode"
+                        value={settings.mode}
+                        onChange={(e) => update({ mode: e.target.value as TimelineSettings['mode'] })}
+                        className={inputClass}
+                    >
+                        <option value="fixed">Fixed</option>
+                        <option value="words">From word count</option>
+                        <option value="subtitles">From subtitle timing</option>
+                    </select>
+                </div>
+                {settings.mode === 'words' ? (
+                    <div>
+                        <label className={labelClass} htmlFor="tl-wpm">Words per Minute</label>
+                        <input
+                            id="tl-wpm"
+                            type="number"
+                            min={60}
+                            max={400}
+                            value={settings.wordsPerMinute}
+                            onChange={(e) => update({ wordsPerMinute: Math.max(1, Number(e.target.value) || 1) })}
+                            className={inputClass}
+                        />
+                    </div>
+                ) : (
+                    <div>
+                        <label className={labelClass} htmlFor="tl-seconds">{settings.mode === 'fixed' ? 'Seconds per Image' : 'Seconds Without a Cue'}</label>
+                        <input
+                            id="tl-seconds"
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={settings.secondsPerImage}
+                            onChange={(e) => update({ secondsPerImage: Math.max(0.5, Number(e.target.value) || 0.5) })}
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+                <div>
+                    <label className={labelClass} htmlFor="tl-fps">Frame Rate</label>
+                    <select
+                        id="tl-fps"
+                        value={settings.frameRate}
+                        onChange={(e) => update({ frameRate: Number(e.target.value) })}
+                        className={inputClass}
+                    >
+                        {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-text-secondary">{MODE_HINTS[settings.mode]} A time set on a prompt overrides this.</p>
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                <input type="checkbox" checked={settings.kenBurns} onChange={(e) => update({ kenBurns: e.target.checked })} />
+                Slow pan and zoom (Ken Burns) in the preview
+            </label>
+            <button onClick={onPreview} disabled={imageCount === 0} className={buttonClass}>
+                Preview slideshow
+            </button>
+            <p className="text-xs text-text-secondary">
+                {imageCount > 0
+                    ? `${imageCount} image${imageCount === 1 ? '' : 's'}, ${formatDuration(totalSeconds)} in total. Only successful images are included.`
+                    : 'Generate images to time a slideshow.'}
+            </p>
+            {letterboxedCount > 0 && (
+                <p className="text-xs text-yellow-400">
+                    The timelines and the preview are {frameAspectRatio}. {letterboxedCount} image{letterboxedCount === 1 ? ' has' : 's have'} another aspect ratio and will be letterboxed, or cropped when panning and zooming.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default TimelinePanel;
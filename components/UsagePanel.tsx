@@ -0,0 +1,173 @@
+import React, { useMemo } from 'react';
+import type { BudgetCap, ModelPrice, PriceTable, UsageEntry } from '../types.ts';
+import { listImageProviders, listPromptProviders } from '../services/providerRegistry.ts';
+import { DEFAULT_PRICES, formatCost, priceFor, summarizeUsage, type UsageTotals } from '../services/usageLedger.ts';
+
+interface UsagePanelProps {
+    usage: UsageEntry[];
+    runId: string | null;
+    prices: PriceTable;
+    onPricesChange: (prices: PriceTable) => void;
+    budget: BudgetCap;
+    onBudgetChange: (budget: BudgetCap) => void;
+    onClear: () => void;
+}
+
+const inputClass = "w-full p-2 bg-secondary border border-border rounded-md text-sm text-text-secondary focus:ring-2 focus:ring-primary focus:outline-none";
+const priceInputClass = "w-20 p-1 bg-secondary border border-border rounded text-xs text-text-secondary focus:ring-1 focus:ring-primary focus:outline-none";
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+    { key: 'perImage', label: 'Per image' },
+    { key: 'inputPerMillionTokens', label: 'Input / 1M tok' },
+    { key: 'outputPerMillionTokens', label: 'Output / 1M tok' },
+];
+
+const formatTokens = (count: number) => count >= 10_000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+const TotalsColumn: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+    <div className="p-3 bg-secondary border border-border rounded-md">
+        <p className="text-xs uppercase tracking-wide text-text-secondary">{title}</p>
+        <p className="text-2xl font-semibold text-text-main">{formatCost(totals.cost)}</p>
+        <p className="text-xs text-text-secondary">
+            {totals.images} images · {totals.calls} calls
+            {totals.retries > 0 && ` · ${totals.retries} retries`}
+            {totals.failures > 0 && ` · ${totals.failures} failed`}
+        </p>
+        <p className="text-xs text-text-secondary">{formatTokens(totals.inputTokens)} in / {formatTokens(totals.outputTokens)} out tokens</p>
+    </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, runId, prices, onPricesChange, budget, onBudgetChange, onClear }) => {
+    const project = useMemo(() => summarizeUsage(usage, prices), [usage, prices]);
+    const run = useMemo(() => summarizeUsage(usage.filter(entry => entry.runId === runId), prices), [usage, runId, prices]);
+
+    // Every model a provider offers, plus any that only appear in the ledger.
+    const models = useMemo(() => {
+        const known = new Map<string, string>();
+        listPromptProviders().forEach(p => p.models.forEach(m => known.set(m.id, `${p.label}: ${m.label}`)));
+        listImageProviders().forEach(p => p.models.forEach(m => known.set(m.id, `${p.label}: ${m.label}`)));
+        usage.forEach(entry => { if (!known.has(entry.model)) known.set(entry.model, entry.model); });
+        return Array.from(known.entries());
+    }, [usage]);
+
+    const setPrice = (model: string, key: keyof ModelPrice, value: number) => {
+        onPricesChange({ ...prices, [model]: { ...priceFor(prices, model), [key]: Math.max(0, value || 0) } });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+                <TotalsColumn title="This run" totals={run.total} />
+                <TotalsColumn title="Project" totals={project.total} />
+            </div>
+
+            {project.byModel.length > 0 && (
+                <table className="w-full text-xs text-text-secondary">
+                    <thead>
+                        <tr className="text-left border-b border-border">
+                            <th className="py-1 font-medium">Model</th>
+                            <th className="py-1 font-medium text-right">Calls</th>
+                            <th className="py-1 font-medium text-right">Images</th>
+                            <th className="py-1 font-medium text-right">Tokens</th>
+                            <th className="py-1 font-medium text-right">Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {project.byModel.map(row => (
+                            <tr key={`${row.providerId}/${row.model}`} className="border-b border-border/50">
+                                <td className="py-1">{row.model}</td>
+                                <td className="py-1 text-right">{row.calls}{row.retries > 0 && ` (+${row.retries})`}</td>
+                                <td className="py-1 text-right">{row.images}</td>
+                                <td className="py-1 text-right">{formatTokens(row.inputTokens + row.outputTokens)}</td>
+                                <td className="py-1 text-right">{formatCost(row.cost)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="budget-scope">Budget Applies To</label>
+                    <select
+                        id="budget-scope"
+                        value={budget.scope}
+                        onChange={(e) => onBudgetChange({ ...budget, scope: e.target.value as BudgetCap['scope'] })}
+                        className={inputClass}
+                    >
+                        <option value="run">Each run</option>
+                        <option value="project">Whole project</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="budget-images">Max Images (0 = none)</label>
+                    <input
+                        type="number"
+                        id="budget-images"
+                        min={0}
+                        value={budget.maxImages}
+                        onChange={(e) => onBudgetChange({ ...budget, maxImages: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1" htmlFor="budget-cost">Max Cost, USD (0 = none)</label>
+                    <input
+                        type="number"
+                        id="budget-cost"
+                        min={0}
+                        step={0.5}
+                        value={budget.maxCost}
+                        onChange={(e) => onBudgetChange({ ...budget, maxCost: Math.max(0, Number(e.target.value) || 0) })}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-text-secondary">The queue pauses before a job that would go over the budget. Costs are estimates from the price table below.</p>
+
+            <details className="text-sm text-text-secondary">
+                <summary className="cursor-pointer select-none">Prices (USD)</summary>
+                <table className="mt-2 w-full text-xs">
+                    <thead>
+                        <tr className="text-left">
+                            <th className="py-1 font-medium">Model</th>
+                            {PRICE_FIELDS.map(field => <th key={field.key} className="py-1 font-medium">{field.label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(([id, label]) => (
+                            <tr key={id}>
+                                <td className="py-1 pr-2">{label}</td>
+                                {PRICE_FIELDS.map(field => (
+                                    <td key={field.key} className="py-1">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={0.001}
+                                            aria-label={`${label} ${field.label}`}
+                                            value={priceFor(prices, id)[field.key]}
+                                            onChange={(e) => setPrice(id, field.key, Number(e.target.value))}
+                                            className={priceInputClass}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="mt-2 flex justify-between">
+                    <button onClick={() => onPricesChange({ ...DEFAULT_PRICES })} className="text-xs text-primary hover:text-primary-hover">Reset to default prices</button>
+                    <button
+                        onClick={onClear}
+                        disabled={usage.length === 0}
+                        className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Clear usage history
+                    </button>
+                </div>
+            </details>
+        </div>
+    );
+};
+
+export default UsagePanel;
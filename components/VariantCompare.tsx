@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import type { ImageJob } from '../types.ts';
+
+interface VariantCompareProps {
+    job: ImageJob;
+    onChoose: (index: number) => void;
+    onClose: () => void;
+}
+
+const VariantCompare: React.FC<VariantCompareProps> = ({ job, onChoose, onClose }) => {
+    const variants = job.variants ?? [];
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            const index = Number(e.key) - 1;
+            if (index >= 0 && index < variants.length) onChoose(index);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [variants, onChoose, onClose]);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-lg shadow-lg max-w-5xl w-full max-h-full overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-text-main">Choose the hero image</h2>
+                        <p className="text-sm text-text-secondary mt-1">{job.prompt}</p>
+                    </div>
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:text-text-main">Close</button>
+                </div>
+                <div className={`grid gap-4 ${variants.length > 2 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`}>
+                    {variants.map((src, i) => {
+                        const isHero = src === job.src;
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => onChoose(i)}
+                                className={`relative rounded-lg overflow-hidden border-4 bg-secondary ${isHero ? 'border-primary' : 'border-transparent hover:border-border'}`}
+                            >
+                                <img src={src} alt={`Variant ${i + 1}`} className="w-full h-auto" />
+                                <span className={`absolute top-1 left-1 text-xs font-semibold px-2 py-0.5 rounded ${isHero ? 'bg-primary text-white' : 'bg-black/60 text-white'}`}>
+                                    {isHero ? `★ ${i + 1}` : i + 1}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+                <p className="mt-4 text-xs text-text-secondary">Click a candidate or press its number to make it the hero. Exports use the hero unless all variants are included.</p>
+            </div>
+        </div>
+    );
+};
+
+export default VariantCompare;
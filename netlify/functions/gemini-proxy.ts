@@ -0,0 +1,12 @@
+import { createProxyHandler, readProxyOptions } from "../../server/geminiProxy.ts";
+
+// Netlify function serving the Gemini proxy at /api/gemini/*. GEMINI_API_KEY and the optional
+// PROXY_* settings come from the site's environment variables and never reach the browser.
+// Rate-limit buckets live in the function instance, so the limit is per warm instance.
+
+const handle = createProxyHandler(readProxyOptions(process.env));
+
+export default (request: Request, context: { ip?: string }) =>
+  handle(request, context.ip ?? request.headers.get('x-nf-client-connection-ip') ?? 'unknown');
+
+export const config = { path: '/api/gemini/*' };
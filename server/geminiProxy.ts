@@ -0,0 +1,274 @@
+import type { AspectRatio, CharacterNote, ErrorCategory, TokenUsage } from "../types.ts";
+import { createGeminiClient, geminiImageProvider, geminiPromptProvider, type GeminiEditRequest, type GeminiImageRequest, type InlineImage } from "../services/geminiService.ts";
+import { PROXY_PATHS, type ProxyErrorBody, type ProxyUsage } from "../services/geminiProxyClient.ts";
+import { classifyError, createGenerationError } from "../services/generationErrors.ts";
+import { MAX_VARIANTS } from "../services/jobs.ts";
+import { createMockGeminiBackend } from "../services/mockService.ts";
+
+// Server-side half of the Gemini proxy. It is written against the Fetch API Request/Response
+// types so the same handler runs as a Netlify function and in the standalone Node server.
+
+export interface ProxyOptions {
+  apiKey: string | undefined;
+  // When set, callers must send it as a bearer token.
+  accessToken: string | undefined;
+  // Per client; 0 disables the limit.
+  requestsPerMinute: number;
+  allowedOrigin: string | undefined;
+  maxBodyBytes: number;
+  // Answers with the offline mock instead of calling Google, for testing clients such as the CLI.
+  mock: boolean;
+}
+
+export function readProxyOptions(env: Record<string, string | undefined>): ProxyOptions {
+  return {
+    apiKey: env.GEMINI_API_KEY || env.API_KEY,
+    accessToken: env.PROXY_ACCESS_TOKEN || undefined,
+    requestsPerMinute: Math.max(0, Number(env.PROXY_REQUESTS_PER_MINUTE ?? 30) || 0),
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN || undefined,
+    maxBodyBytes: Math.max(1, Number(env.PROXY_MAX_BODY_MB ?? 20) || 20) * 1024 * 1024,
+    mock: env.PROXY_MOCK === '1',
+  };
+}
+
+export interface ClientRateLimiter {
+  // 0 when the request may go ahead, otherwise how long the client should wait.
+  take(clientId: string, now?: number): number;
+  // The same answer as take, without spending a token.
+  peek(clientId: string, now?: number): number;
+}
+
+// Wrong access tokens a client may send per minute, whatever the request limit, so the token
+// cannot be guessed by brute force even with PROXY_REQUESTS_PER_MINUTE=0.
+const AUTH_FAILURES_PER_MINUTE = 5;
+
+// One token bucket per client, refilled at requestsPerMinute with a burst of the same size.
+// Buckets that have refilled completely are dropped, so the map only holds active clients.
+export function createClientRateLimiter(requestsPerMinute: number): ClientRateLimiter {
+  const capacity = Math.max(1, requestsPerMinute);
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const prune = (now: number) => {
+    buckets.forEach((bucket, id) => {
+      if (bucket.tokens + ((now - bucket.updatedAt) * requestsPerMinute) / 60000 >= capacity) buckets.delete(id);
+    });
+  };
+
+  const refill = (clientId: string, now: number) => {
+    if (buckets.size > 1000) prune(now);
+    const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * requestsPerMinute) / 60000);
+    bucket.updatedAt = now;
+    buckets.set(clientId, bucket);
+    return bucket;
+  };
+
+  const waitFor = (tokens: number) => tokens >= 1 ? 0 : Math.ceil(((1 - tokens) * 60000) / requestsPerMinute);
+
+  return {
+    take(clientId, now = Date.now()) {
+      if (requestsPerMinute <= 0) return 0;
+      const bucket = refill(clientId, now);
+      const waitMs = waitFor(bucket.tokens);
+      if (waitMs === 0) bucket.tokens -= 1;
+      return waitMs;
+    },
+    peek(clientId, now = Date.now()) {
+      if (requestsPerMinute <= 0) return 0;
+      return waitFor(refill(clientId, now).tokens);
+    },
+  };
+}
+
+const STATUS_FOR_CATEGORY: Record<ErrorCategory, number> = {
+  'rate-limited': 429,
+  'quota-exhausted': 429,
+  'server-error': 502,
+  'network': 502,
+  'safety-blocked': 422,
+  'invalid-request': 400,
+  // The proxy's own key was rejected, which is the server's problem rather than the caller's.
+  'auth': 502,
+  'missing-api-key': 500,
+  'unknown': 500,
+};
+
+const badRequest = (message: string) => createGenerationError('invalid-request', message);
+
+const IMAGE_MODELS = new Set(geminiImageProvider.models.map(model => model.id));
+const EDIT_MODELS = new Set(geminiImageProvider.models.filter(model => model.capabilities.editing).map(model => model.id));
+const PROMPT_MODELS = new Set(geminiPromptProvider.models.map(model => model.id));
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '9:16', '16:9'];
+// Same cap the app applies to its density settings.
+const MAX_TARGET_COUNT = 500;
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw badRequest(`"${field}" must be a non-empty string.`);
+  return value;
+};
+
+const requireModel = (value: unknown, allowed: Set<string>): string => {
+  const model = requireString(value, 'model');
+  if (!allowed.has(model)) throw badRequest(`Model "${model}" is not available through this proxy.`);
+  return model;
+};
+
+const isInlineImage = (image: any): image is InlineImage =>
+  typeof image?.base64 === 'string' && /^image\//.test(image?.mimeType);
+
+const requireAspectRatio = (value: unknown): AspectRatio => {
+  if (!ASPECT_RATIOS.includes(value as AspectRatio)) throw badRequest(`Unsupported aspect ratio "${value}".`);
+  return value as AspectRatio;
+};
+
+function parseImageRequest(body: any, signal: AbortSignal, onUsage: (usage: TokenUsage) => void): GeminiImageRequest {
+  const aspectRatio = requireAspectRatio(body.aspectRatio);
+  const referenceImages: InlineImage[] = Array.isArray(body.referenceImages) ? body.referenceImages : [];
+  if (!referenceImages.every(isInlineImage)) {
+    throw badRequest("Reference images must be base64 strings with an image MIME type.");
+  }
+  const characters: CharacterNote[] = Array.isArray(body.characters) ? body.characters : [];
+  return {
+    prompt: requireString(body.prompt, 'prompt'),
+    styleKeywords: typeof body.styleKeywords === 'string' ? body.styleKeywords : '',
+    negativePrompt: typeof body.negativePrompt === 'string' ? body.negativePrompt : undefined,
+    referenceImages: referenceImages.map(({ base64, mimeType }) => ({ base64, mimeType })),
+    characters: characters
+      .filter(c => typeof c?.name === 'string')
+      .map(c => ({ name: c.name, description: typeof c.description === 'string' ? c.description : '' })),
+    aspectRatio,
+    model: requireModel(body.model, IMAGE_MODELS),
+    variants: Math.min(MAX_VARIANTS, Math.max(1, Math.floor(Number(body.variants) || 1))),
+    signal,
+    onUsage,
+  };
+}
+
+function parseEditRequest(body: any, signal: AbortSignal, onUsage: (usage: TokenUsage) => void): GeminiEditRequest {
+  if (!isInlineImage(body.image) || (body.mask !== undefined && !isInlineImage(body.mask))) {
+    throw badRequest("The image and mask must be base64 strings with an image MIME type.");
+  }
+  return {
+    image: { base64: body.image.base64, mimeType: body.image.mimeType },
+    mask: body.mask ? { base64: body.mask.base64, mimeType: body.mask.mimeType } : undefined,
+    instruction: requireString(body.instruction, 'instruction'),
+    aspectRatio: requireAspectRatio(body.aspectRatio),
+    model: requireModel(body.model, EDIT_MODELS),
+    signal,
+    onUsage,
+  };
+}
+
+// Compares every character so response timing does not reveal how much of a guess was right.
+const safeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+export function createProxyHandler(options: ProxyOptions) {
+  const limiter = createClientRateLimiter(options.requestsPerMinute);
+  const authFailures = createClientRateLimiter(AUTH_FAILURES_PER_MINUTE);
+  const client = options.mock ? createMockGeminiBackend() : createGeminiClient(options.apiKey);
+
+  const corsHeaders: Record<string, string> = options.allowedOrigin
+    ? {
+      'Access-Control-Allow-Origin': options.allowedOrigin,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Vary': 'Origin',
+    }
+    : {};
+
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders, ...headers },
+    });
+
+  const fail = (status: number, category: ErrorCategory, message: string, headers: Record<string, string> = {}) =>
+    json(status, { error: { message, category } } satisfies ProxyErrorBody, headers);
+
+  return async (request: Request, clientId: string): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+    if (pathname.endsWith(PROXY_PATHS.health)) {
+      return json(200, { ok: true, configured: !!options.apiKey || options.mock, protected: !!options.accessToken });
+    }
+    const route = [PROXY_PATHS.prompts, PROXY_PATHS.images, PROXY_PATHS.edit, PROXY_PATHS.rewrite].find(path => pathname.endsWith(path));
+    if (!route) {
+      return fail(404, 'invalid-request', `No proxy endpoint at ${pathname}.`);
+    }
+    if (request.method !== 'POST') {
+      return fail(405, 'invalid-request', "Use POST.", { Allow: 'POST' });
+    }
+
+    // Limits come before the token check, so guesses at the token are limited too.
+    const waitMs = limiter.take(clientId);
+    if (waitMs > 0) {
+      return fail(429, 'rate-limited', "Too many requests to the proxy. Slow down and try again shortly.", {
+        'Retry-After': String(Math.ceil(waitMs / 1000)),
+      });
+    }
+
+    if (options.accessToken) {
+      const lockedMs = authFailures.peek(clientId);
+      if (lockedMs > 0) {
+        return fail(429, 'rate-limited', "Too many wrong access tokens. Try again shortly.", {
+          'Retry-After': String(Math.ceil(lockedMs / 1000)),
+        });
+      }
+      const header = request.headers.get('authorization') ?? '';
+      const token = header.replace(/^Bearer\s+/i, '');
+      if (!safeEqual(token, options.accessToken)) {
+        authFailures.take(clientId);
+        return fail(401, 'auth', "This proxy requires an access token. Enter it under Gemini access in the app.");
+      }
+    }
+
+    if (Number(request.headers.get('content-length') ?? 0) > options.maxBodyBytes) {
+      return fail(413, 'invalid-request', "The request body is too large.");
+    }
+
+    try {
+      let body: any;
+      try {
+        body = await request.json();
+      } catch {
+        throw badRequest("The request body must be JSON.");
+      }
+      if (!body || typeof body !== 'object') throw badRequest("The request body must be a JSON object.");
+
+      // Passed back so the app's usage ledger sees the same numbers as a direct call would.
+      const metered: ProxyUsage = {};
+      const onUsage = (usage: TokenUsage) => { metered.usage = usage; };
+
+      if (route === PROXY_PATHS.prompts) {
+        const targetCount = Number.isInteger(body.targetCount) && body.targetCount > 0 ? Math.min(body.targetCount, MAX_TARGET_COUNT) : undefined;
+        const scenes = await client.generatePrompts(requireString(body.script, 'script'), requireModel(body.model, PROMPT_MODELS), { targetCount, onUsage });
+        return json(200, { scenes, ...metered });
+      }
+      if (route === PROXY_PATHS.rewrite) {
+        const prompt = await client.rewritePrompt(requireString(body.prompt, 'prompt'), requireModel(body.model, PROMPT_MODELS), onUsage);
+        return json(200, { prompt, ...metered });
+      }
+      if (route === PROXY_PATHS.edit) {
+        const image = await client.editImage(parseEditRequest(body, request.signal, onUsage));
+        return json(200, { image, ...metered });
+      }
+      const images = await client.generateImages(parseImageRequest(body, request.signal, onUsage));
+      return json(200, { images, ...metered });
+    } catch (error) {
+      const classified = classifyError(error);
+      console.error(`Gemini proxy ${route} failed (${classified.category}):`, classified.message);
+      const headers: Record<string, string> = classified.retryAfterMs !== undefined
+        ? { 'Retry-After': String(Math.ceil(classified.retryAfterMs / 1000)) }
+        : {};
+      return fail(STATUS_FOR_CATEGORY[classified.category], classified.category, classified.message, headers);
+    }
+  };
+}
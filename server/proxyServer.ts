@@ -0,0 +1,71 @@
+import { createServer, type IncomingMessage } from "node:http";
+import { createProxyHandler, readProxyOptions } from "./geminiProxy.ts";
+
+// Standalone Gemini proxy for local development and self-hosting:
+//   GEMINI_API_KEY=... npm run proxy
+// `npm run dev` forwards /api to it (see vite.config.ts).
+
+const port = Number(process.env.PORT) || 8787;
+const options = readProxyOptions(process.env);
+const handle = createProxyHandler(options);
+// Only trust X-Forwarded-For behind a reverse proxy that sets it; otherwise clients could pick their own rate-limit bucket.
+const trustForwarded = process.env.PROXY_TRUST_FORWARDED === '1';
+
+const clientIdOf = (req: IncomingMessage): string => {
+  const forwarded = trustForwarded ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const toHeaders = (req: IncomingMessage): Headers => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  });
+  return headers;
+};
+
+createServer(async (req, res) => {
+  const controller = new AbortController();
+  // A client that disconnects (for example after cancelling a job) should not keep the upstream call running.
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  // The body is read inside the try, since a client that disconnects mid-upload makes the read throw.
+  try {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > options.maxBodyBytes) {
+        res.writeHead(413, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: "The request body is too large.", category: 'invalid-request' } }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    const request = new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+      method: req.method,
+      headers: toHeaders(req),
+      body: hasBody ? Buffer.concat(chunks) : undefined,
+      signal: controller.signal,
+    });
+    const response = await handle(request, clientIdOf(req));
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    // A client that went away mid-request has no one left to answer.
+    if (res.destroyed) return;
+    console.error("Gemini proxy request failed:", error);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: "Internal proxy error.", category: 'unknown' } }));
+  }
+}).listen(port, () => {
+  console.log(`Gemini proxy listening on http://localhost:${port}/api`);
+  if (options.mock) console.log("Serving the offline mock instead of Gemini (PROXY_MOCK).");
+  else if (!options.apiKey) console.warn("GEMINI_API_KEY is not set; every generation request will fail.");
+  if (options.accessToken) console.log("Access token required (PROXY_ACCESS_TOKEN).");
+});
@@ -0,0 +1,28 @@
+// Credentials that belong to this browser only. They are never saved with a project or exported.
+const GEMINI_KEY_STORAGE = 'bulk-image-generator:gemini-api-key';
+const PROXY_TOKEN_STORAGE = 'bulk-image-generator:proxy-token';
+const OPENAI_KEY_STORAGE = 'bulk-image-generator:openai-api-key';
+
+const read = (key: string): string | null =>
+  typeof localStorage === 'undefined' ? null : localStorage.getItem(key) || null;
+
+const write = (key: string, value: string | null) => {
+  const trimmed = value?.trim();
+  if (trimmed) {
+    localStorage.setItem(key, trimmed);
+  } else {
+    localStorage.removeItem(key);
+  }
+};
+
+// Bring-your-own-key mode: when set, Gemini is called directly from the browser with this key.
+export const getBrowserApiKey = (): string | null => read(GEMINI_KEY_STORAGE);
+export const setBrowserApiKey = (apiKey: string | null) => write(GEMINI_KEY_STORAGE, apiKey);
+
+// Shared password for a proxy started with PROXY_ACCESS_TOKEN.
+export const getProxyToken = (): string | null => read(PROXY_TOKEN_STORAGE);
+export const setProxyToken = (token: string | null) => write(PROXY_TOKEN_STORAGE, token);
+
+// Key for the OpenAI-compatible provider, which is always called directly from the browser.
+export const getOpenAiApiKey = (): string | null => read(OPENAI_KEY_STORAGE);
+export const setOpenAiApiKey = (apiKey: string | null) => write(OPENAI_KEY_STORAGE, apiKey);
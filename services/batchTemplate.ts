@@ -0,0 +1,224 @@
+import type { AspectRatio, BatchDataset, BatchSettings, JobOverrides } from "../types.ts";
+import { FILENAME_TOKENS } from "./exportService.ts";
+
+// Template mode: one prompt template with {placeholders}, filled from each row of a CSV or JSON
+// dataset and optionally expanded over every combination of a few variables.
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  template: '',
+  variables: '',
+  dataset: null,
+};
+
+export const DATASET_ACCEPT = '.csv,.tsv,.json';
+
+// Larger expansions are almost always a mistake in the variables, and would flood the queue.
+export const MAX_BATCH_JOBS = 2000;
+
+export interface TemplateVariable {
+  name: string;
+  values: string[];
+}
+
+export interface BatchItem {
+  prompt: string;
+  values: Record<string, string>;
+  overrides: JobOverrides;
+}
+
+export interface BatchPreview {
+  items: BatchItem[];
+  // Combinations the dataset and variables add up to, which can exceed items when capped.
+  total: number;
+  warnings: string[];
+}
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '9:16', '16:9'];
+
+// Dataset columns that set a job's options instead of (or as well as) filling placeholders.
+const OVERRIDE_COLUMNS: Record<keyof JobOverrides, string[]> = {
+  styleKeywords: ['style', 'stylekeywords'],
+  negativePrompt: ['avoid', 'negative', 'negativeprompt'],
+  aspectRatio: ['aspectratio', 'ratio'],
+  fileName: ['filename', 'file'],
+};
+
+const normalizeColumn = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// RFC 4180: quoted fields may contain separators, line breaks and doubled quotes.
+export function parseDelimited(text: string, separator = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === separator) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const stringify = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRecordList = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.every(isRecord);
+
+export function parseDataset(fileName: string, text: string): BatchDataset {
+  const source = text.replace(/^\uFEFF/, '');
+  let records: Record<string, string>[];
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(source)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+    const list = isRecord(parsed) ? parsed.rows : parsed;
+    if (!isRecordList(list)) {
+      throw new Error(`${fileName} must hold an array of objects, one per row.`);
+    }
+    records = list.map(item => Object.fromEntries(Object.entries(item).map(([key, value]) => [key.trim(), stringify(value)])));
+  } else {
+    const [header, ...body] = parseDelimited(source, /\.tsv$/i.test(fileName) ? '\t' : ',');
+    if (!header) throw new Error(`${fileName} is empty.`);
+    const columns = header.map(column => column.trim());
+    records = body.map(cells => Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()])));
+  }
+  if (records.length === 0) throw new Error(`${fileName} has no rows.`);
+  const columns = Array.from(new Set(records.flatMap(record => Object.keys(record)))).filter(Boolean);
+  return { fileName, columns, rows: records };
+}
+
+// One variable per line, "name: value, value, value".
+export function parseVariables(text: string): { variables: TemplateVariable[]; warnings: string[] } {
+  const variables: TemplateVariable[] = [];
+  const warnings: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const match = line.match(/^\s*\{?([^:{}]+?)\}?\s*:\s*(.*)$/);
+    const values = match ? match[2].split(',').map(value => value.trim()).filter(Boolean) : [];
+    if (!match || values.length === 0) {
+      warnings.push(`Variable line ${i + 1} should look like "color: red, blue".`);
+      return;
+    }
+    variables.push({ name: match[1].trim(), values });
+  });
+  return { variables, warnings };
+}
+
+export const findPlaceholders = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(/\{([^{}]+)\}/g), match => match[1].trim())));
+
+// Placeholders are matched exactly first, then ignoring case, spaces and underscores.
+function lookup(values: Record<string, string>, name: string): string | undefined {
+  if (name in values) return values[name];
+  const wanted = normalizeColumn(name);
+  const key = Object.keys(values).find(k => normalizeColumn(k) === wanted);
+  return key === undefined ? undefined : values[key];
+}
+
+export function fillTemplate(template: string, values: Record<string, string>, keep: string[] = []): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const text = template.replace(/\{([^{}]+)\}/g, (token, raw: string) => {
+    if (keep.includes(token)) return token;
+    const value = lookup(values, raw.trim());
+    if (value === undefined) {
+      missing.push(raw.trim());
+      return token;
+    }
+    return value;
+  });
+  return { text, missing };
+}
+
+// The n-th combination of the variables, last variable changing fastest. Decoded on demand so a
+// huge product is never built in memory.
+function combinationAt(variables: TemplateVariable[], n: number): Record<string, string> {
+  const combination: Record<string, string> = {};
+  for (let i = variables.length - 1; i >= 0; i--) {
+    const { name, values } = variables[i];
+    combination[name] = values[n % values.length];
+    n = Math.floor(n / values.length);
+  }
+  return combination;
+}
+
+function readOverrides(values: Record<string, string>, rowLabel: string, warnings: string[]): JobOverrides {
+  const overrides: JobOverrides = {};
+  const column = (key: keyof JobOverrides) => {
+    const name = Object.keys(values).find(k => OVERRIDE_COLUMNS[key].includes(normalizeColumn(k)));
+    return name ? values[name].trim() : '';
+  };
+  const style = column('styleKeywords');
+  if (style) overrides.styleKeywords = style;
+  const negative = column('negativePrompt');
+  if (negative) overrides.negativePrompt = negative;
+  const ratio = column('aspectRatio');
+  if (ratio) {
+    if (ASPECT_RATIOS.includes(ratio as AspectRatio)) overrides.aspectRatio = ratio as AspectRatio;
+    else warnings.push(`${rowLabel}: aspect ratio "${ratio}" is not one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  const fileName = column('fileName');
+  if (fileName) {
+    // Values may use placeholders and the export's own tokens; the extension is added on export.
+    overrides.fileName = fillTemplate(fileName, values, FILENAME_TOKENS).text.replace(/\.(png|jpe?g|webp|svg)$/i, '');
+  }
+  return overrides;
+}
+
+export function expandBatch(settings: BatchSettings): BatchPreview {
+  const { variables, warnings } = parseVariables(settings.variables);
+  if (!settings.template.trim()) return { items: [], total: 0, warnings };
+  const rows = settings.dataset?.rows ?? [{}];
+  const combinations = variables.reduce((product, variable) => product * variable.values.length, 1);
+  const total = rows.length * combinations;
+  if (total > MAX_BATCH_JOBS) {
+    warnings.push(`The dataset and variables make ${total} prompts; only the first ${MAX_BATCH_JOBS} are used.`);
+  }
+
+  const items: BatchItem[] = [];
+  const missingByName = new Map<string, number>();
+  for (let r = 0; r < rows.length && items.length < MAX_BATCH_JOBS; r++) {
+    for (let c = 0; c < combinations && items.length < MAX_BATCH_JOBS; c++) {
+      // Variables win over columns of the same name.
+      const values = { ...rows[r], ...combinationAt(variables, c) };
+      const { text, missing } = fillTemplate(settings.template, values);
+      missing.forEach(name => missingByName.set(name, (missingByName.get(name) ?? 0) + 1));
+      items.push({ prompt: text.trim(), values, overrides: readOverrides(values, `Row ${r + 1}`, warnings) });
+    }
+  }
+  missingByName.forEach((count, name) => {
+    warnings.push(`No value for {${name}} in ${count === items.length ? 'any prompt' : `${count} prompts`}; it is left in the text.`);
+  });
+  return { items, total, warnings: Array.from(new Set(warnings)) };
+}
@@ -0,0 +1,34 @@
+import type { CharacterEntry, CharacterNote, ImageJob, ReferenceImage } from "../types.ts";
+
+export const createCharacter = (name = ''): CharacterEntry => ({
+  id: crypto.randomUUID(),
+  name,
+  aliases: [],
+  description: '',
+  images: [],
+});
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word boundaries that know about letters outside ASCII, so names like "Zoë" or "Åsa" match.
+const mentions = (text: string, name: string): boolean =>
+  name.trim() !== '' && new RegExp(`(?<![\\p{L}\\p{M}\\p{N}_])${escapeRegExp(name.trim())}(?![\\p{L}\\p{M}\\p{N}_])`, 'iu').test(text);
+
+// A character applies to a job when the prompt or the scene's cast names them or one of their aliases.
+export function matchCharacters(job: ImageJob, library: CharacterEntry[]): CharacterEntry[] {
+  if (job.characterIds) {
+    return library.filter(character => job.characterIds!.includes(character.id));
+  }
+  const haystack = [job.prompt, ...(job.scene?.characters ?? [])].join('\n');
+  return library.filter(character =>
+    [character.name, ...character.aliases].some(name => mentions(haystack, name))
+  );
+}
+
+export const toCharacterNotes = (characters: CharacterEntry[]): CharacterNote[] =>
+  characters
+    .filter(character => character.name.trim() !== '')
+    .map(character => ({ name: character.name.trim(), description: character.description.trim() }));
+
+export const collectReferenceImages = (characters: CharacterEntry[]): ReferenceImage[] =>
+  characters.flatMap(character => character.images);
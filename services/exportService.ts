@@ -0,0 +1,207 @@
+import type { ImageJob, PostProcessSettings, PriceTable, Project, TimelineSettings } from "../types.ts";
+import { dataUrlToBytes, extensionForMimeType, getDataUrlMimeType } from "./fileUtils.ts";
+import { embedGenerationMetadata, metadataForJob } from "./imageMetadata.ts";
+import type { ProcessedImages } from "./postProcess.ts";
+import { editChain } from "./jobs.ts";
+import { formatTimestamp } from "./scriptImport.ts";
+import { cmx3600Edl, fcpxmlTimeline, ffmpegConcatList, frameSpans, jobDurations, timelineAspectRatio, videoSize } from "./timeline.ts";
+import { summarizeUsage, type ModelUsage } from "./usageLedger.ts";
+import { createZip, type ZipEntry } from "./zipWriter.ts";
+
+export const DEFAULT_FILENAME_PATTERN = '{index}_{slug}';
+
+export const FILENAME_TOKENS = ['{index}', '{slug}', '{status}', '{model}', '{project}'];
+
+export interface ManifestEntry {
+  index: number;
+  fileName: string | null;
+  variantCount: number;
+  // Other candidates written next to the hero image; empty unless all variants are exported.
+  variantFileNames: string[];
+  sceneNumber: number | null;
+  sourceHeading: string;
+  startTime: string;
+  endTime: string;
+  sourceExcerpt: string;
+  setting: string;
+  characters: string;
+  shotType: string;
+  references: string;
+  prompt: string;
+  styleKeywords: string;
+  aspectRatio: string;
+  provider: string;
+  model: string;
+  status: string;
+  stale: boolean;
+  // Edit instructions applied since the image was generated, oldest first.
+  edits: string;
+  error: string;
+}
+
+export const slugify = (value: string, maxLength = 40): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '') || 'image';
+
+// Index is 1-based and zero-padded to the job count, so files sort in prompt order.
+export function formatFileName(pattern: string, job: ImageJob, index: number, total: number, projectName: string): string {
+  const width = String(total).length;
+  const base = (pattern || DEFAULT_FILENAME_PATTERN)
+    .replaceAll('{index}', String(index + 1).padStart(width, '0'))
+    .replaceAll('{slug}', slugify(job.prompt))
+    .replaceAll('{status}', job.status)
+    .replaceAll('{model}', slugify(job.model ?? 'unknown'))
+    .replaceAll('{project}', slugify(projectName));
+  // Keep the pattern from producing paths or characters archive tools reject.
+  return base.replace(/[\\/:*?"<>|]+/g, '-').trim() || String(index + 1);
+}
+
+export interface ExportOptions {
+  includeAllVariants?: boolean;
+  // Used to estimate costs in the usage summary.
+  prices?: PriceTable;
+  // Recorded in the manifest when the images were post-processed.
+  postProcess?: PostProcessSettings;
+  // Written in place of the originals. The manifest and the embedded metadata still describe the
+  // job's original images, so variant numbers and edit history stay right.
+  processedImages?: ProcessedImages;
+  // Writes the generation settings into each image; on unless turned off.
+  embedMetadata?: boolean;
+  // Adds timelines that cut the hero images to these durations.
+  timeline?: TimelineSettings;
+}
+
+// Non-hero candidates of a job, in variant order.
+const otherVariants = (job: ImageJob): string[] => (job.variants ?? []).filter(src => src !== job.src);
+
+// The image written for one of a job's images: the processed copy when there is one.
+const outputImage = (job: ImageJob, src: string, options: ExportOptions): string =>
+  options.processedImages?.get(job.id)?.get(src) ?? src;
+
+export function buildManifest(project: Project, pattern: string, options: ExportOptions = {}): ManifestEntry[] {
+  const usedNames = new Set<string>();
+  const claimName = (base: string, src: string) => {
+    const extension = extensionForMimeType(getDataUrlMimeType(src));
+    let name = `${base}.${extension}`;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${base}-${n}.${extension}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+  return project.jobs.map((job, index) => {
+    let fileName: string | null = null;
+    let variantFileNames: string[] = [];
+    if (job.status === 'success' && job.src) {
+      const base = formatFileName(job.overrides?.fileName || pattern, job, index, project.jobs.length, project.name);
+      fileName = claimName(base, outputImage(job, job.src, options));
+      if (options.includeAllVariants) {
+        variantFileNames = otherVariants(job).map((src, v) => claimName(`${base}_alt${v + 1}`, outputImage(job, src, options)));
+      }
+    }
+    return {
+      index: index + 1,
+      fileName,
+      variantCount: job.variants?.length ?? (job.src ? 1 : 0),
+      variantFileNames,
+      sceneNumber: job.scene?.sceneNumber ?? null,
+      sourceHeading: job.scene?.sourceHeading ?? '',
+      startTime: job.scene?.timeRange ? formatTimestamp(job.scene.timeRange.start) : '',
+      endTime: job.scene?.timeRange ? formatTimestamp(job.scene.timeRange.end) : '',
+      sourceExcerpt: job.scene?.sourceExcerpt ?? '',
+      setting: job.scene?.setting ?? '',
+      characters: job.scene?.characters.join('; ') ?? '',
+      shotType: job.scene?.shotType ?? '',
+      references: (job.usedCharacterIds ?? [])
+        .map(id => project.characters.find(c => c.id === id)?.name ?? id)
+        .join('; '),
+      prompt: job.prompt,
+      styleKeywords: job.styleKeywords ?? project.settings.styleKeywords,
+      aspectRatio: job.aspectRatio ?? project.settings.aspectRatio,
+      provider: job.providerId ?? '',
+      model: job.model ?? '',
+      status: job.status,
+      stale: !!job.stale,
+      edits: editChain(job).join('; '),
+      error: job.error ?? '',
+    };
+  });
+}
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.map(csvCell).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => csvCell(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestEntry)[] = [
+  'index', 'fileName', 'variantCount', 'variantFileNames', 'sceneNumber', 'sourceHeading', 'startTime', 'endTime', 'setting', 'characters', 'shotType', 'sourceExcerpt', 'references', 'prompt', 'styleKeywords', 'aspectRatio', 'provider', 'model', 'status', 'stale', 'edits', 'error',
+];
+
+const USAGE_COLUMNS: (keyof ModelUsage)[] = [
+  'providerId', 'model', 'calls', 'failures', 'retries', 'images', 'inputTokens', 'outputTokens', 'cost',
+];
+
+// One row per model plus a total row, costs in USD rounded to tenths of a cent.
+function usageCsv(summary: ReturnType<typeof summarizeUsage>): string {
+  const rows = [...summary.byModel, { providerId: 'total', model: '', ...summary.total }]
+    .map(row => ({ ...row, cost: row.cost.toFixed(3) }));
+  return toCsv(rows, USAGE_COLUMNS);
+}
+
+// Durations are worked out over the exported images only, so a failed job's time goes to the image before it.
+function timelineEntries(project: Project, manifest: ManifestEntry[], settings: TimelineSettings): ZipEntry[] {
+  const exported = manifest.flatMap((entry, i) => entry.fileName ? [{ job: project.jobs[i], fileName: entry.fileName }] : []);
+  const durations = jobDurations(exported.map(item => item.job), settings);
+  const clips = frameSpans(durations, settings.frameRate).map((span, i) => ({ ...span, fileName: exported[i].fileName }));
+  const fallback = project.settings.aspectRatio;
+  const size = videoSize(timelineAspectRatio(exported.map(item => item.job.aspectRatio ?? fallback), fallback));
+  return [
+    { name: 'timeline.ffconcat', data: ffmpegConcatList(clips, settings.frameRate, size) },
+    { name: 'timeline.edl', data: cmx3600Edl(project.name, clips, settings.frameRate) },
+    { name: 'timeline.fcpxml', data: fcpxmlTimeline(project.name, clips, settings.frameRate, size) },
+  ];
+}
+
+export function exportProjectZip(project: Project, pattern: string, options: ExportOptions = {}): Blob {
+  const manifest = buildManifest(project, pattern, options);
+  const entries: ZipEntry[] = [];
+  const imageData = (job: ImageJob, src: string) => {
+    const bytes = dataUrlToBytes(outputImage(job, src, options));
+    return options.embedMetadata === false ? bytes : embedGenerationMetadata(bytes, metadataForJob(job, src, project.settings));
+  };
+  manifest.forEach((entry, i) => {
+    const job = project.jobs[i];
+    if (entry.fileName && job.src) {
+      entries.push({ name: entry.fileName, data: imageData(job, job.src) });
+    }
+    otherVariants(job).forEach((src, v) => {
+      const name = entry.variantFileNames[v];
+      if (name) entries.push({ name, data: imageData(job, src) });
+    });
+  });
+  const usage = summarizeUsage(project.usage, options.prices ?? {});
+  entries.push({
+    name: 'manifest.json',
+    data: JSON.stringify({ project: project.name, exportedAt: new Date().toISOString(), postProcessing: options.postProcess?.enabled ? options.postProcess : null, usage: { currency: 'USD', ...usage }, jobs: manifest }, null, 2),
+  });
+  entries.push({ name: 'manifest.csv', data: toCsv(manifest, MANIFEST_COLUMNS) });
+  if (project.usage.length > 0) {
+    entries.push({ name: 'usage.csv', data: usageCsv(usage) });
+  }
+  if (options.timeline) {
+    entries.push(...timelineEntries(project, manifest, options.timeline));
+  }
+  return createZip(entries);
+}
@@ -0,0 +1,49 @@
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+
+export const fileToBase64 = async (file: Blob): Promise<string> => (await blobToDataUrl(file)).split(',')[1];
+
+export const getDataUrlMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const [header, data] = dataUrl.split(',', 2);
+  if (!header.includes(';base64')) {
+    return new TextEncoder().encode(decodeURIComponent(data));
+  }
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
+
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export const dataUrlToBlob = (dataUrl: string): Blob =>
+  new Blob([dataUrlToBytes(dataUrl) as BlobPart], { type: getDataUrlMimeType(dataUrl) });
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'bin';
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,88 @@
+import type { ErrorCategory, ScenePrompt, TokenUsage } from "../types.ts";
+import type { GeminiBackend } from "./geminiService.ts";
+import { isAbortError } from "./abortUtils.ts";
+import { getProxyToken } from "./apiKeyStore.ts";
+import { createGenerationError, createHttpError } from "./generationErrors.ts";
+
+// Endpoints of the server-side proxy (server/geminiProxy.ts), relative to its base URL.
+export const PROXY_PATHS = {
+  health: '/gemini/health',
+  prompts: '/gemini/prompts',
+  images: '/gemini/images',
+  edit: '/gemini/edit',
+  rewrite: '/gemini/rewrite',
+};
+
+export interface ProxyErrorBody {
+  error: { message: string; category: ErrorCategory };
+}
+
+// Successful responses also carry the token usage Google reported, when it reported any.
+export interface ProxyUsage {
+  usage?: TokenUsage;
+}
+
+export interface ProxyClientOptions {
+  // Defaults to GEMINI_PROXY_URL, then the app's own /api.
+  baseUrl?: string;
+  // Defaults to the token saved in this browser.
+  token?: string | null;
+}
+
+const getProxyUrl = () => {
+    const configured = typeof process !== 'undefined' && process.env ? process.env.GEMINI_PROXY_URL : undefined;
+    return (configured || '/api').replace(/\/+$/, '');
+};
+
+async function post<T>(options: ProxyClientOptions, path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const url = `${options.baseUrl?.replace(/\/+$/, '') || getProxyUrl()}${path}`;
+  const token = options.token === undefined ? getProxyToken() : options.token;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw createGenerationError('network', `Could not reach the Gemini proxy at ${url}.`, { cause: error });
+  }
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const { error } = (payload ?? {}) as Partial<ProxyErrorBody>;
+    const failure = createHttpError(response, error?.message || `Gemini proxy error: ${response.status} ${response.statusText}`);
+    // The proxy has already classified the upstream error, which the status alone cannot convey.
+    if (error?.category) failure.category = error.category;
+    throw failure;
+  }
+  return payload as T;
+}
+
+export function createGeminiProxyClient(proxy: ProxyClientOptions = {}): GeminiBackend {
+  return {
+    async generatePrompts(script, model, options = {}) {
+      const { scenes, usage } = await post<{ scenes: ScenePrompt[] } & ProxyUsage>(proxy, PROXY_PATHS.prompts, { script, model, targetCount: options.targetCount });
+      if (usage) options.onUsage?.(usage);
+      return scenes;
+    },
+    async generateImages({ signal, onUsage, ...request }) {
+      const { images, usage } = await post<{ images: string[] } & ProxyUsage>(proxy, PROXY_PATHS.images, request, signal);
+      if (usage) onUsage?.(usage);
+      return images;
+    },
+    async editImage({ signal, onUsage, ...request }) {
+      const { image, usage } = await post<{ image: string } & ProxyUsage>(proxy, PROXY_PATHS.edit, request, signal);
+      if (usage) onUsage?.(usage);
+      return image;
+    },
+    async rewritePrompt(prompt, model, onUsage) {
+      const result = await post<{ prompt: string } & ProxyUsage>(proxy, PROXY_PATHS.rewrite, { prompt, model });
+      if (result.usage) onUsage?.(result.usage);
+      return result.prompt;
+    },
+  };
+}
@@ -1,48 +1,81 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { ReferenceImage, AspectRatio } from "../types.ts";
+import { GoogleGenAI, Type, Modality, type GenerateContentResponse } from "@google/genai";
+import type { ImageEditRequest, ImageGenerationRequest, ImageProvider, PromptGenerationOptions, PromptProvider, ScenePrompt, UsageReporter } from "../types.ts";
+import { isAbortError } from "./abortUtils.ts";
+import { getBrowserApiKey } from "./apiKeyStore.ts";
+import { classifyError, createGenerationError } from "./generationErrors.ts";
+import { createGeminiProxyClient } from "./geminiProxyClient.ts";
+import { getDataUrlMimeType } from "./fileUtils.ts";
+import { buildEditPrompt, buildFullPrompt, buildPromptGenerationInstruction, cleanRewrittenPrompt, parseScenePrompts, SAFE_REWRITE_INSTRUCTION } from "./promptBuilder.ts";
 
-const getAi = () => {
-    // This relies on the env.js file created by the Netlify build command
-    if (typeof process === 'undefined' || !process.env) {
-        throw new Error("The environment script (env.js) has not loaded. This is needed to configure the API Key.");
-    }
-    const apiKey = process.env.API_KEY;
+// Reference images as they travel to the proxy: no File object, just the bytes and their type.
+export interface InlineImage {
+  base64: string;
+  mimeType: string;
+}
+
+export type GeminiImageRequest = Omit<ImageGenerationRequest, 'referenceImages'> & { referenceImages: InlineImage[] };
+
+export type GeminiEditRequest = Omit<ImageEditRequest, 'image' | 'mask'> & { image: InlineImage; mask?: InlineImage };
+
+// The calls the app needs from Gemini. Implemented by the SDK client below (used by the proxy
+// server and in bring-your-own-key mode) and by the proxy client (the default in the browser).
+export interface GeminiBackend {
+  generatePrompts(script: string, model: string, options?: PromptGenerationOptions): Promise<ScenePrompt[]>;
+  generateImages(request: GeminiImageRequest): Promise<string[]>;
+  editImage(request: GeminiEditRequest): Promise<string>;
+  rewritePrompt(prompt: string, model: string, onUsage?: UsageReporter): Promise<string>;
+}
+
+const getAi = (apiKey: string | null | undefined) => {
     if (!apiKey) {
-        throw new Error("API Key is not configured. Please ensure the API_KEY is set in your Netlify environment variables and the site has been redeployed.");
+        throw createGenerationError('missing-api-key', "Gemini API Key is not configured. Set GEMINI_API_KEY on the proxy server, or enter your own key in the app.");
     }
     return new GoogleGenAI({ apiKey });
 };
 
+// Thinking tokens are billed as output.
+const reportUsage = (response: GenerateContentResponse, onUsage: UsageReporter | undefined) => {
+  const metadata = response.usageMetadata;
+  if (!metadata || !onUsage) return;
+  onUsage({
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  });
+};
+
 const promptGenerationModel = "gemini-2.5-flash";
 const imageGenerationModelWithRef = "gemini-2.5-flash-image";
 const imageGenerationModelNoRef = "imagen-4.0-generate-001";
 
-const PROMPT_GENERATION_SYSTEM_INSTRUCTION = `You are an expert script analyst and creative director. Your job is to read a script, break it down into key visual moments, and generate concise, detailed prompts for a text-to-image AI. Each prompt should describe a single, clear scene. Ensure the prompts are diverse and capture the essence of the script. Return the output as a JSON array of strings.`;
-
-export async function generatePromptsFromScript(script: string): Promise<string[]> {
+async function generatePromptsWithSdk(ai: GoogleGenAI, script: string, model: string, options: PromptGenerationOptions = {}): Promise<ScenePrompt[]> {
   try {
-    const ai = getAi();
     const response = await ai.models.generateContent({
-      model: promptGenerationModel,
+      model,
       contents: script,
       config: {
-        systemInstruction: PROMPT_GENERATION_SYSTEM_INSTRUCTION,
+        systemInstruction: buildPromptGenerationInstruction(options.targetCount),
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
           items: {
-            type: Type.STRING,
-            description: "A single, detailed visual prompt for an image generation AI.",
+            type: Type.OBJECT,
+            properties: {
+              sceneNumber: { type: Type.INTEGER, description: "1-based position of the scene in the script." },
+              sourceExcerpt: { type: Type.STRING, description: "The passage of the script this scene illustrates, copied verbatim." },
+              setting: { type: Type.STRING, description: "Where the scene takes place." },
+              characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of the characters present." },
+              shotType: { type: Type.STRING, description: "Camera framing, e.g. wide shot or close-up." },
+              prompt: { type: Type.STRING, description: "A single, detailed visual prompt for an image generation AI." },
+            },
+            required: ["sceneNumber", "sourceExcerpt", "setting", "characters", "shotType", "prompt"],
+            propertyOrdering: ["sceneNumber", "sourceExcerpt", "setting", "characters", "shotType", "prompt"],
           },
         },
       },
     });
-    
-    const prompts = JSON.parse(response.text);
-    if (!Array.isArray(prompts)) {
-      throw new Error("AI did not return a valid array of prompts.");
-    }
-    return prompts.filter(p => typeof p === 'string' && p.trim() !== '');
+    reportUsage(response, options.onUsage);
+
+    return parseScenePrompts(JSON.parse(response.text ?? ''), script);
 
   } catch (error) {
     console.error("Error generating prompts:", error);
@@ -53,94 +86,203 @@ export async function generatePromptsFromScript(script: string): Promise<string[
   }
 }
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export async function generateImageFromPrompt(
-  prompt: string,
-  styleKeywords: string,
-  referenceImage: ReferenceImage | null,
-  aspectRatio: AspectRatio
-): Promise<string> {
-  let attempt = 0;
-  const maxRetries = 3;
-  let delay = 2000; // start with 2 seconds
-
-  while (attempt <= maxRetries) {
-    try {
-      const ai = getAi();
-      const stylePrompt = styleKeywords ? `, in the style of ${styleKeywords}` : '';
-
-      if (referenceImage) {
-        let ratioPrompt = '';
-        if (aspectRatio === '9:16') {
-            ratioPrompt = ', vertical 9:16 aspect ratio';
-        } else if (aspectRatio === '16:9') {
-            ratioPrompt = ', horizontal 16:9 aspect ratio';
-        }
-        const fullPrompt = `${prompt}${stylePrompt}${ratioPrompt}`;
-
-        const parts: any[] = [{ text: fullPrompt }];
-        parts.unshift({
-          inlineData: {
-            data: referenceImage.base64,
-            mimeType: referenceImage.file.type,
-          },
-        });
+async function rewritePromptWithSdk(ai: GoogleGenAI, prompt: string, model: string, onUsage?: UsageReporter): Promise<string> {
+  const response = await ai.models.generateContent({
+    model,
+    contents: prompt,
+    config: { systemInstruction: SAFE_REWRITE_INSTRUCTION },
+  });
+  reportUsage(response, onUsage);
+  const rewritten = cleanRewrittenPrompt(response.text ?? '');
+  if (!rewritten) {
+    throw new Error("The model did not return a rewritten prompt.");
+  }
+  return rewritten;
+}
 
-        const response = await ai.models.generateContent({
-          model: imageGenerationModelWithRef,
-          contents: { parts },
-          config: {
-            responseModalities: [Modality.IMAGE],
-          },
-        });
-
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-          if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          }
-        }
-        throw new Error("No image data found in the response for image-to-image generation.");
-
-      } else {
-        const fullPrompt = `${prompt}${stylePrompt}`;
-        
-        const response = await ai.models.generateImages({
-            model: imageGenerationModelNoRef,
-            prompt: fullPrompt,
-            config: {
-              numberOfImages: 1,
-              aspectRatio: aspectRatio,
-              outputMimeType: 'image/png',
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-          const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-          return `data:image/png;base64,${base64ImageBytes}`;
-        }
-        throw new Error("No image data found in the response for text-to-image generation.");
-      }
-    } catch (error: any) {
-        attempt++;
-        const errorMessage = (error.message || '').toLowerCase();
-        // Check for common rate limit / transient errors to retry
-        if (
-          attempt <= maxRetries &&
-          (errorMessage.includes('rate limit') || errorMessage.includes('quota') || errorMessage.includes('429') || errorMessage.includes('503') || errorMessage.includes('server unavailable') || errorMessage.includes('deadline exceeded'))
-        ) {
-          console.warn(`Attempt ${attempt} failed for prompt "${prompt}". Retrying in ${delay / 1000}s... Error: ${error.message}`);
-          await sleep(delay);
-          delay *= 2; // Exponential backoff
-        } else {
-          console.error(`Error generating image for prompt "${prompt}" after ${attempt > 1 ? 'retries' : 'attempt'}:`, error);
-          if (error instanceof Error) {
-              throw new Error(`Failed for prompt "${prompt}": ${error.message}`);
-          }
-          throw new Error(`An unknown error occurred for prompt: "${prompt}".`);
-        }
+// Multimodal generateContent path; accepts a reference image but can only hint at the aspect ratio.
+async function generateWithGeminiImageModel(ai: GoogleGenAI, request: GeminiImageRequest): Promise<string[]> {
+  const { prompt, styleKeywords, referenceImages, characters, aspectRatio, model, signal, onUsage, negativePrompt } = request;
+  const fullPrompt = buildFullPrompt(prompt, styleKeywords, aspectRatio, true, characters, negativePrompt);
+
+  const parts: any[] = referenceImages.map(image => ({
+    inlineData: {
+      data: image.base64,
+      mimeType: image.mimeType,
+    },
+  }));
+  parts.push({ text: fullPrompt });
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      responseModalities: [Modality.IMAGE],
+      abortSignal: signal,
+    },
+  });
+  reportUsage(response, onUsage);
+  return [readImagePart(response, "image-to-image generation")];
+}
+
+function readImagePart(response: GenerateContentResponse, purpose: string): string {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  const blockReason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+  if (blockReason && blockReason !== 'STOP') {
+    throw createGenerationError('safety-blocked', `The request was blocked (${blockReason}).`);
+  }
+  throw new Error(`No image data found in the response for ${purpose}.`);
+}
+
+// Same multimodal path as a reference image: the current image, then the mask, then the instruction.
+async function editWithGeminiImageModel(ai: GoogleGenAI, request: GeminiEditRequest): Promise<string> {
+  const { image, mask, instruction, aspectRatio, model, signal, onUsage } = request;
+  const parts: any[] = [image, ...(mask ? [mask] : [])].map(({ base64, mimeType }) => ({ inlineData: { data: base64, mimeType } }));
+  parts.push({ text: buildEditPrompt(instruction, aspectRatio, !!mask) });
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      responseModalities: [Modality.IMAGE],
+      abortSignal: signal,
+    },
+  });
+  reportUsage(response, onUsage);
+  return readImagePart(response, "the image edit");
+}
+
+// Imagen generateImages path; text-only, with native aspect ratio support.
+async function generateWithImagen(ai: GoogleGenAI, request: GeminiImageRequest): Promise<string[]> {
+  const { prompt, styleKeywords, negativePrompt, characters, aspectRatio, model, variants, signal } = request;
+  const fullPrompt = buildFullPrompt(prompt, styleKeywords, aspectRatio, false, characters, negativePrompt);
+
+  const response = await ai.models.generateImages({
+      model,
+      prompt: fullPrompt,
+      config: {
+        numberOfImages: variants,
+        aspectRatio: aspectRatio,
+        outputMimeType: 'image/png',
+        abortSignal: signal,
+      },
+  });
+
+  const images = (response.generatedImages ?? [])
+    .map(generated => generated.image?.imageBytes)
+    .filter((bytes): bytes is string => !!bytes)
+    .map(bytes => `data:image/png;base64,${bytes}`);
+  if (images.length > 0) {
+    return images;
+  }
+  const filteredReason = response.generatedImages?.[0]?.raiFilteredReason;
+  if (filteredReason) {
+    throw createGenerationError('safety-blocked', `The image was filtered by the safety system: ${filteredReason}`);
+  }
+  throw new Error("No image data found in the response for text-to-image generation.");
+}
+
+// Talks to Google directly with the given key.
+export function createGeminiClient(apiKey: string | null | undefined): GeminiBackend {
+  return {
+    generatePrompts: (script, model, options) => generatePromptsWithSdk(getAi(apiKey), script, model, options),
+    generateImages: (request) => request.model.startsWith('imagen-')
+      ? generateWithImagen(getAi(apiKey), request)
+      : generateWithGeminiImageModel(getAi(apiKey), request),
+    editImage: (request) => editWithGeminiImageModel(getAi(apiKey), request),
+    rewritePrompt: (prompt, model, onUsage) => rewritePromptWithSdk(getAi(apiKey), prompt, model, onUsage),
+  };
+}
+
+// Where calls go without a key saved in this browser: the app's proxy, which holds the key. The
+// command-line runner replaces it, since Node has neither the browser storage nor a same-origin /api.
+let defaultBackend: () => GeminiBackend = () => createGeminiProxyClient();
+
+export const setDefaultGeminiBackend = (create: () => GeminiBackend) => {
+  defaultBackend = create;
+};
+
+// A key saved in this browser is used directly; otherwise the default backend.
+const getBackend = (): GeminiBackend => {
+  const apiKey = getBrowserApiKey();
+  return apiKey ? createGeminiClient(apiKey) : defaultBackend();
+};
+
+export const generatePromptsFromScript = (script: string, model: string = promptGenerationModel, options?: PromptGenerationOptions): Promise<ScenePrompt[]> =>
+  getBackend().generatePrompts(script, model, options);
+
+export const rewritePromptSafely = (prompt: string, model: string = promptGenerationModel, onUsage?: UsageReporter): Promise<string> =>
+  getBackend().rewritePrompt(prompt, model, onUsage);
+
+// Retries are left to the caller's retry policy; this only tags the error with its category.
+export async function generateImageFromPrompt(request: ImageGenerationRequest): Promise<string[]> {
+  const { prompt } = request;
+  try {
+    return await getBackend().generateImages({
+      ...request,
+      referenceImages: request.referenceImages.map(image => ({ base64: image.base64, mimeType: image.file.type })),
+    });
+  } catch (error) {
+    if (isAbortError(error) || request.signal?.aborted) {
+      throw error;
+    }
+    console.error(`Error generating image for prompt "${prompt}":`, error);
+    const classified = classifyError(error);
+    classified.message = `Failed for prompt "${prompt}": ${classified.message}`;
+    throw classified;
+  }
+}
+
+const toInlineImage = (dataUrl: string): InlineImage => ({ base64: dataUrl.split(',')[1] ?? '', mimeType: getDataUrlMimeType(dataUrl) });
+
+export async function editImageWithGemini(request: ImageEditRequest): Promise<string> {
+  try {
+    return await getBackend().editImage({
+      ...request,
+      image: toInlineImage(request.image),
+      mask: request.mask ? toInlineImage(request.mask) : undefined,
+    });
+  } catch (error) {
+    if (isAbortError(error) || request.signal?.aborted) {
+      throw error;
     }
+    console.error(`Error editing image with "${request.instruction}":`, error);
+    const classified = classifyError(error);
+    classified.message = `Edit "${request.instruction}" failed: ${classified.message}`;
+    throw classified;
   }
-  // This should not be reachable if logic is correct
-  throw new Error(`Failed to generate image for prompt "${prompt}" after all retries.`);
 }
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini / Imagen',
+  models: [
+    {
+      id: imageGenerationModelNoRef,
+      label: 'Imagen 4',
+      capabilities: { referenceImages: false, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: true, maxVariants: 4, editing: false },
+    },
+    {
+      id: imageGenerationModelWithRef,
+      label: 'Gemini 2.5 Flash Image',
+      capabilities: { referenceImages: true, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: false, maxVariants: 1, editing: true },
+    },
+  ],
+  generateImage: generateImageFromPrompt,
+  editImage: editImageWithGemini,
+};
+
+export const geminiPromptProvider: PromptProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [
+    { id: promptGenerationModel, label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  ],
+  generatePrompts: generatePromptsFromScript,
+  rewritePromptSafely,
+};
@@ -0,0 +1,123 @@
+import type { ErrorCategory } from "../types.ts";
+
+// Providers throw plain Errors with whatever message their API returns. This module sorts them
+// into categories the retry policy, the queue's circuit breaker and the UI can act on.
+
+export interface GenerationError extends Error {
+  category: ErrorCategory;
+  status?: number;
+  // Server hint for when to try again, from Retry-After or the error body.
+  retryAfterMs?: number;
+}
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  'rate-limited': 'Rate limited',
+  'quota-exhausted': 'Quota exhausted',
+  'server-error': 'Server error',
+  'network': 'Network error',
+  'safety-blocked': 'Blocked by safety filter',
+  'invalid-request': 'Invalid request',
+  'auth': 'Not authorized',
+  'missing-api-key': 'API key missing',
+  'unknown': 'Error',
+};
+
+// Worth trying again after a pause.
+export const RETRYABLE_CATEGORIES: ErrorCategory[] = ['rate-limited', 'server-error', 'network'];
+
+// Every remaining job would fail the same way, so the queue stops instead.
+export const HALTING_CATEGORIES: ErrorCategory[] = ['quota-exhausted', 'auth', 'missing-api-key'];
+
+export function createGenerationError(
+  category: ErrorCategory,
+  message: string,
+  details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+): GenerationError {
+  const error = new Error(message, { cause: details.cause }) as GenerationError;
+  error.name = 'GenerationError';
+  error.category = category;
+  if (details.status !== undefined) error.status = details.status;
+  if (details.retryAfterMs !== undefined) error.retryAfterMs = details.retryAfterMs;
+  return error;
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError =>
+  error instanceof Error && typeof (error as GenerationError).category === 'string';
+
+// Retry-After is either a number of seconds or an HTTP date.
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Gemini puts its hint in the message: "Please retry in 37.2s" or "retryDelay": "37s".
+const retryHintFromMessage = (message: string): number | undefined => {
+  const match = message.match(/retry in ([\d.]+)\s*s/i) ?? message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+const QUOTA_PATTERN = /insufficient_quota|billing|per ?day|daily limit|check your plan|limit: 0\b/i;
+
+// Gemini's ordinary per-minute 429 also says "check your plan and billing details", so a quota error
+// with a hint of when to retry, or against a per-minute quota, is throttling and not exhaustion.
+function quotaCategory(message: string, retryAfterMs: number | undefined): ErrorCategory {
+  const throttled = retryAfterMs !== undefined || /per ?minute/i.test(message);
+  return !throttled && QUOTA_PATTERN.test(message) ? 'quota-exhausted' : 'rate-limited';
+}
+
+const PATTERNS: [ErrorCategory, RegExp][] = [
+  ['missing-api-key', /api key is not configured|api_key.* not set|environment script .* has not loaded/i],
+  ['safety-blocked', /safety|blocked|prohibited|responsible ai|content policy|moderation|raifiltered|content_filter/i],
+  ['auth', /api key not valid|invalid api key|incorrect api key|unauthori[sz]ed|permission denied|permission_denied/i],
+  ['quota-exhausted', QUOTA_PATTERN],
+  ['rate-limited', /rate limit|too many requests|resource_exhausted|quota/i],
+  ['server-error', /unavailable|overloaded|deadline exceeded|internal error|bad gateway|timed? ?out/i],
+  ['network', /failed to fetch|networkerror|network error|could not reach|econnrefused|econnreset/i],
+  ['invalid-request', /invalid argument|invalid_argument|bad request|not found|unsupported/i],
+];
+
+const categoryForMessage = (message: string): ErrorCategory | undefined =>
+  PATTERNS.find(([, pattern]) => pattern.test(message))?.[0];
+
+function categoryForStatus(status: number, message: string, retryAfterMs: number | undefined): ErrorCategory | undefined {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return quotaCategory(message, retryAfterMs);
+  if (status === 408 || status >= 500) return 'server-error';
+  if (status >= 400) {
+    // Some APIs answer a bad key or a blocked prompt with a plain 400.
+    const byMessage = categoryForMessage(message);
+    return byMessage === 'safety-blocked' || byMessage === 'auth' ? byMessage : 'invalid-request';
+  }
+  return undefined;
+}
+
+const statusOf = (error: any, message: string): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  // Only trust codes from a JSON error body; messages also quote the prompt, which may contain numbers.
+  const match = message.match(/"code"\s*:\s*([45]\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export function classifyError(error: unknown): GenerationError {
+  if (isGenerationError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error, message);
+  const retryAfterMs = retryHintFromMessage(message);
+  let category = (status !== undefined ? categoryForStatus(status, message, retryAfterMs) : undefined)
+    ?? categoryForMessage(message)
+    ?? 'unknown';
+  if (category === 'quota-exhausted') category = quotaCategory(message, retryAfterMs);
+  return createGenerationError(category, message, { status, retryAfterMs, cause: error });
+}
+
+// For fetch-based providers: keeps the status and Retry-After header alongside the message.
+// Only the status and the API's `detail` are classified; `context` (which may quote the user's
+// prompt) is put in front of the message afterwards.
+export const createHttpError = (response: Response, detail: string, context?: string): GenerationError => {
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? retryHintFromMessage(detail);
+  const category = categoryForStatus(response.status, detail, retryAfterMs) ?? 'unknown';
+  return createGenerationError(category, context ? `${context}: ${detail}` : detail, { status: response.status, retryAfterMs });
+};
@@ -0,0 +1,441 @@
+import type { AspectRatio, GenerationMetadata, ImageJob, JobOverrides } from "../types.ts";
+import { createImageJob, editChain } from "./jobs.ts";
+import { crc32 } from "./zipWriter.ts";
+
+// Generation settings carried inside the image files: text chunks in PNG, XMP in JPEG and WebP,
+// and a metadata element in SVG. Other tools show the prompt as the image description; the full
+// record is JSON under our own keyword or namespace, and is what "restore from image" reads back.
+
+export const METADATA_VERSION = 1;
+
+const KEYWORD = 'bulk-image-generator';
+const XMP_NAMESPACE = 'urn:bulk-image-generator:metadata:1';
+const XMP_PREFIX = 'bulkimg';
+const SOFTWARE = 'Bulk AI Image Generator';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '9:16', '16:9'];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// The fallbacks stand in for settings a job did not record, as in the export manifest.
+export interface MetadataDefaults {
+  styleKeywords: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+}
+
+// Metadata for one of the job's images: the hero or one of the other candidates.
+export function metadataForJob(job: ImageJob, src: string, defaults: MetadataDefaults): GenerationMetadata {
+  const variants = job.variants ?? [job.src];
+  const edits = src === job.src ? editChain(job) : [];
+  return {
+    version: METADATA_VERSION,
+    prompt: job.prompt,
+    styleKeywords: job.styleKeywords ?? defaults.styleKeywords,
+    negativePrompt: job.negativePrompt ?? defaults.negativePrompt,
+    aspectRatio: job.aspectRatio ?? defaults.aspectRatio,
+    providerId: job.providerId ?? '',
+    model: job.model ?? '',
+    referenceHashes: job.referenceHashes ?? [],
+    variantIndex: Math.max(1, variants.indexOf(src) + 1),
+    variantCount: Math.max(1, variants.length),
+    generatedAt: new Date(job.generatedAt ?? Date.now()).toISOString(),
+    ...(job.scene ? { scene: job.scene } : {}),
+    ...(edits.length > 0 ? { edits } : {}),
+  };
+}
+
+// A finished job holding the image, with the recorded settings as its overrides so that
+// regenerating it reproduces the shot rather than picking up the project's current style.
+export function jobFromMetadata(metadata: GenerationMetadata, src: string): ImageJob {
+  const overrides: JobOverrides = { styleKeywords: metadata.styleKeywords, aspectRatio: metadata.aspectRatio };
+  if (metadata.negativePrompt) overrides.negativePrompt = metadata.negativePrompt;
+  return {
+    ...createImageJob(metadata.prompt, metadata.scene),
+    status: 'success',
+    src,
+    providerId: metadata.providerId || undefined,
+    model: metadata.model || undefined,
+    styleKeywords: metadata.styleKeywords,
+    negativePrompt: metadata.negativePrompt,
+    aspectRatio: metadata.aspectRatio,
+    referenceHashes: metadata.referenceHashes,
+    generatedAt: Date.parse(metadata.generatedAt) || undefined,
+    overrides,
+  };
+}
+
+const text = (value: unknown): string => typeof value === 'string' ? value : '';
+
+// Anything without a prompt is not ours; other fields that are off get defaults.
+function readMetadata(json: string): GenerationMetadata | null {
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object' || !text(value.prompt).trim()) return null;
+  const scene = value.scene && typeof value.scene === 'object' && Array.isArray(value.scene.characters) ? value.scene : undefined;
+  const edits = Array.isArray(value.edits) ? value.edits.filter((edit: unknown) => typeof edit === 'string') : [];
+  return {
+    version: Number(value.version) || METADATA_VERSION,
+    prompt: text(value.prompt),
+    styleKeywords: text(value.styleKeywords),
+    negativePrompt: text(value.negativePrompt),
+    aspectRatio: ASPECT_RATIOS.includes(value.aspectRatio) ? value.aspectRatio : '1:1',
+    providerId: text(value.providerId),
+    model: text(value.model),
+    referenceHashes: Array.isArray(value.referenceHashes) ? value.referenceHashes.filter((hash: unknown) => typeof hash === 'string') : [],
+    variantIndex: Math.max(1, Math.floor(Number(value.variantIndex) || 1)),
+    variantCount: Math.max(1, Math.floor(Number(value.variantCount) || 1)),
+    generatedAt: text(value.generatedAt),
+    ...(scene ? { scene } : {}),
+    ...(edits.length > 0 ? { edits } : {}),
+  };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const latin1 = (value: string): Uint8Array => Uint8Array.from(value, c => c.charCodeAt(0) & 0xff);
+const latin1Decoder = new TextDecoder('latin1');
+const readLatin1 = (bytes: Uint8Array): string => latin1Decoder.decode(bytes);
+
+const startsWith = (bytes: Uint8Array, prefix: number[] | Uint8Array, offset = 0): boolean =>
+  bytes.length >= offset + prefix.length && Array.prototype.every.call(prefix, (b: number, i: number) => bytes[offset + i] === b);
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\r?\n/g, '&#10;');
+
+const unescapeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+  });
+
+// --- PNG: tEXt Software, iTXt Description with the prompt, iTXt with the JSON record ---
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  // The whole chunk: length, type, data and CRC.
+  raw: Uint8Array;
+}
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new Error("Truncated PNG chunk.");
+    chunks.push({
+      type: readLatin1(bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      raw: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Keyword, then for iTXt: no compression, no language tag and no translated keyword.
+const textChunk = (keyword: string, value: string) => pngChunk('tEXt', concat([latin1(keyword), new Uint8Array(1), latin1(value)]));
+const iTxtChunk = (keyword: string, value: string) =>
+  pngChunk('iTXt', concat([latin1(keyword), new Uint8Array(5), encoder.encode(value)]));
+
+// The keyword and text of an uncompressed tEXt or iTXt chunk.
+function readTextChunk(chunk: PngChunk): { keyword: string; value: string } | null {
+  const nul = chunk.data.indexOf(0);
+  if (nul < 0) return null;
+  const keyword = readLatin1(chunk.data.subarray(0, nul));
+  if (chunk.type === 'tEXt') return { keyword, value: readLatin1(chunk.data.subarray(nul + 1)) };
+  if (chunk.data[nul + 1] !== 0) return null;
+  let offset = nul + 3;
+  for (let skip = 0; skip < 2; skip++) {
+    const end = chunk.data.indexOf(0, offset);
+    if (end < 0) return null;
+    offset = end + 1;
+  }
+  return { keyword, value: decoder.decode(chunk.data.subarray(offset)) };
+}
+
+const OWN_PNG_KEYWORDS = [KEYWORD, 'Description', 'Software'];
+
+function embedPng(bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') throw new Error("PNG without a header.");
+  // Earlier copies of our chunks are replaced, so re-exporting a restored image does not stack them.
+  const kept = chunks.filter(chunk => {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') return true;
+    return !OWN_PNG_KEYWORDS.includes(readTextChunk(chunk)?.keyword ?? '');
+  });
+  const ours = [
+    textChunk('Software', SOFTWARE),
+    iTxtChunk('Description', metadata.prompt),
+    iTxtChunk(KEYWORD, JSON.stringify(metadata)),
+  ];
+  return concat([Uint8Array.from(PNG_SIGNATURE), kept[0].raw, ...ours, ...kept.slice(1).map(chunk => chunk.raw)]);
+}
+
+function readPng(bytes: Uint8Array): string | null {
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') continue;
+    const entry = readTextChunk(chunk);
+    if (entry?.keyword === KEYWORD) return entry.value;
+  }
+  return null;
+}
+
+// --- XMP, shared by JPEG and WebP ---
+
+function xmpPacket(metadata: GenerationMetadata): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:${XMP_PREFIX}="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${escapeXml(SOFTWARE)}"
+    xmp:CreateDate="${escapeXml(metadata.generatedAt)}"
+    ${XMP_PREFIX}:generation="${escapeXml(JSON.stringify(metadata))}">
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+// Our record from an XMP packet. Tools that rewrite XMP may turn the attribute into an element,
+// so both forms are accepted; the prefix is looked up from the namespace declaration.
+function readXmp(xmp: string): string | null {
+  const declaration = xmp.match(new RegExp(`xmlns:([\\w.-]+)="${XMP_NAMESPACE.replace(/[.:]/g, '\\$&')}"`));
+  if (!declaration) return null;
+  const prefix = declaration[1];
+  const match = xmp.match(new RegExp(`${prefix}:generation="([^"]*)"`))
+    ?? xmp.match(new RegExp(`<${prefix}:generation>([\\s\\S]*?)</${prefix}:generation>`));
+  return match ? unescapeXml(match[1]) : null;
+}
+
+// --- JPEG: an APP1 segment with the XMP packet ---
+
+const XMP_SIGNATURE = latin1('http://ns.adobe.com/xap/1.0/\0');
+// A segment's length field counts itself and is 16 bits wide.
+const MAX_SEGMENT_DATA = 0xffff - 2;
+
+interface JpegSegment {
+  marker: number;
+  data: Uint8Array;
+  raw: Uint8Array;
+}
+
+// The segments between SOI and the start of scan; the rest of the file is returned as is.
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; rest: Uint8Array } {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) throw new Error("Truncated JPEG segment.");
+    segments.push({ marker, data: bytes.subarray(offset + 4, end), raw: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return { segments, rest: bytes.subarray(offset) };
+}
+
+const isXmpSegment = (segment: JpegSegment) => segment.marker === 0xe1 && startsWith(segment.data, XMP_SIGNATURE);
+
+function embedJpeg(bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+  let packet = encoder.encode(xmpPacket(metadata));
+  // The scene excerpt is the only part that can grow large; without it the record still restores the shot.
+  if (XMP_SIGNATURE.length + packet.length > MAX_SEGMENT_DATA && metadata.scene) {
+    packet = encoder.encode(xmpPacket({ ...metadata, scene: undefined }));
+  }
+  if (XMP_SIGNATURE.length + packet.length > MAX_SEGMENT_DATA) throw new Error("Metadata too large for a JPEG segment.");
+  const { segments, rest } = readJpegSegments(bytes);
+  const length = 2 + XMP_SIGNATURE.length + packet.length;
+  const segment = concat([Uint8Array.of(0xff, 0xe1, length >> 8, length & 0xff), XMP_SIGNATURE, packet]);
+  // JFIF and Exif headers stay first, where readers expect them.
+  const kept = segments.filter(s => !isXmpSegment(s));
+  const leading = kept.findIndex(s => s.marker !== 0xe0 && !(s.marker === 0xe1 && startsWith(s.data, latin1('Exif\0'))));
+  const at = leading < 0 ? kept.length : leading;
+  return concat([
+    bytes.subarray(0, 2),
+    ...kept.slice(0, at).map(s => s.raw),
+    segment,
+    ...kept.slice(at).map(s => s.raw),
+    rest,
+  ]);
+}
+
+function readJpeg(bytes: Uint8Array): string | null {
+  const segment = readJpegSegments(bytes).segments.find(isXmpSegment);
+  return segment ? readXmp(decoder.decode(segment.data.subarray(XMP_SIGNATURE.length))) : null;
+}
+
+// --- WebP: an "XMP " chunk, flagged in the extended (VP8X) header ---
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) throw new Error("Truncated WebP chunk.");
+    chunks.push({ type: readLatin1(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function riffChunk({ type, data }: RiffChunk): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(latin1(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+// Simple WebP files have no VP8X header; one is built from the bitstream's own dimensions.
+function extendedHeader(chunks: RiffChunk[]): RiffChunk {
+  const image = chunks.find(chunk => chunk.type === 'VP8 ' || chunk.type === 'VP8L');
+  if (!image) throw new Error("WebP without image data.");
+  let width: number;
+  let height: number;
+  let alpha = chunks.some(chunk => chunk.type === 'ALPH');
+  const d = image.data;
+  if (image.type === 'VP8 ') {
+    if (d[3] !== 0x9d || d[4] !== 0x01 || d[5] !== 0x2a) throw new Error("Invalid VP8 frame.");
+    width = (d[6] | (d[7] << 8)) & 0x3fff;
+    height = (d[8] | (d[9] << 8)) & 0x3fff;
+  } else {
+    if (d[0] !== 0x2f) throw new Error("Invalid VP8L stream.");
+    const bits = d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = alpha || ((bits >>> 28) & 1) === 1;
+  }
+  return { type: 'VP8X', data: Uint8Array.of(alpha ? VP8X_ALPHA : 0, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)) };
+}
+
+function embedWebp(bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+  const chunks = readRiffChunks(bytes).filter(chunk => chunk.type !== 'XMP ');
+  const existing = chunks.find(chunk => chunk.type === 'VP8X');
+  const header = existing ? { type: 'VP8X', data: Uint8Array.from(existing.data) } : extendedHeader(chunks);
+  header.data[0] |= VP8X_XMP;
+  const body = concat([
+    latin1('WEBP'),
+    riffChunk(header),
+    ...chunks.filter(chunk => chunk !== existing).map(riffChunk),
+    riffChunk({ type: 'XMP ', data: encoder.encode(xmpPacket(metadata)) }),
+  ]);
+  const out = concat([latin1('RIFF'), new Uint8Array(4), body]);
+  new DataView(out.buffer).setUint32(4, body.length, true);
+  return out;
+}
+
+function readWebp(bytes: Uint8Array): string | null {
+  const chunk = readRiffChunks(bytes).find(c => c.type === 'XMP ');
+  return chunk ? readXmp(decoder.decode(chunk.data)) : null;
+}
+
+// --- SVG: a metadata element holding the JSON record ---
+
+const SVG_METADATA = new RegExp(`<metadata id="${KEYWORD}">([\\s\\S]*?)</metadata>`);
+
+function embedSvg(bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+  const svg = decoder.decode(bytes).replace(SVG_METADATA, '');
+  const open = svg.match(/<svg\b[^>]*>/);
+  if (!open || open.index === undefined) throw new Error("SVG without a root element.");
+  const at = open.index + open[0].length;
+  const element = `<metadata id="${KEYWORD}">${escapeXml(JSON.stringify(metadata))}</metadata>`;
+  return encoder.encode(svg.slice(0, at) + element + svg.slice(at));
+}
+
+function readSvg(bytes: Uint8Array): string | null {
+  const match = decoder.decode(bytes).match(SVG_METADATA);
+  return match ? unescapeXml(match[1]) : null;
+}
+
+type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+function detectFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8])) return 'jpeg';
+  if (startsWith(bytes, latin1('RIFF')) && startsWith(bytes, latin1('WEBP'), 8)) return 'webp';
+  if (/^\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*<svg\b/.test(decoder.decode(bytes.subarray(0, 1024)))) return 'svg';
+  return null;
+}
+
+const EMBEDDERS: Record<ImageFormat, (bytes: Uint8Array, metadata: GenerationMetadata) => Uint8Array> = {
+  png: embedPng,
+  jpeg: embedJpeg,
+  webp: embedWebp,
+  svg: embedSvg,
+};
+
+const READERS: Record<ImageFormat, (bytes: Uint8Array) => string | null> = {
+  png: readPng,
+  jpeg: readJpeg,
+  webp: readWebp,
+  svg: readSvg,
+};
+
+// The image with the metadata added. Files this does not understand are returned unchanged:
+// a missing record is better than a broken image in the export.
+export function embedGenerationMetadata(bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+  const format = detectFormat(bytes);
+  if (!format) return bytes;
+  try {
+    return EMBEDDERS[format](bytes, metadata);
+  } catch (error) {
+    console.warn(`Could not embed generation metadata: ${(error as Error).message}`);
+    return bytes;
+  }
+}
+
+// The metadata embedded by this app, or null when the file has none.
+export function readGenerationMetadata(bytes: Uint8Array): GenerationMetadata | null {
+  const format = detectFormat(bytes);
+  if (!format) return null;
+  try {
+    const json = READERS[format](bytes);
+    return json ? readMetadata(json) : null;
+  } catch {
+    return null;
+  }
+}
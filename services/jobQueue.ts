@@ -0,0 +1,218 @@
+import { createAbortError, isAbortError, sleep } from "./abortUtils.ts";
+
+export type QueueState = 'idle' | 'running' | 'paused';
+
+export interface QueueSnapshot {
+  state: QueueState;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+  // Set when the circuit breaker or a start check paused the queue; cleared on resume.
+  haltReason: string | null;
+}
+
+export type QueueEvent<T> =
+  | { type: 'start'; id: string }
+  | { type: 'success'; id: string; result: T }
+  | { type: 'error'; id: string; error: Error }
+  | { type: 'cancelled'; id: string };
+
+export interface JobQueueOptions<T> {
+  concurrency: number;
+  // 0 disables rate limiting.
+  requestsPerMinute: number;
+  onEvent: (event: QueueEvent<T>) => void;
+  // Circuit breaker: an error for which this returns true pauses the queue, leaving the
+  // remaining jobs queued instead of letting each of them fail the same way.
+  shouldHalt?: (error: Error) => boolean;
+  // Asked right before a job starts. A returned reason pauses the queue with the job still queued,
+  // e.g. when it would take the run over budget.
+  canStart?: (id: string) => string | null;
+}
+
+export type QueueTask<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface RateLimiter {
+  acquire(signal: AbortSignal): Promise<void>;
+  configure(requestsPerMinute: number, burst: number): void;
+}
+
+// Token bucket shared by every worker of a queue: `burst` tokens at most, refilled at requestsPerMinute.
+export function createRateLimiter(requestsPerMinute: number, burst: number): RateLimiter {
+  let rate = requestsPerMinute;
+  let capacity = Math.max(1, burst);
+  let tokens = capacity;
+  let lastRefill = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) * rate) / 60000);
+    lastRefill = now;
+  };
+
+  return {
+    async acquire(signal) {
+      while (rate > 0) {
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        const waitMs = Math.ceil(((1 - tokens) * 60000) / rate);
+        await sleep(waitMs, signal);
+      }
+    },
+    configure(requestsPerMinute, nextBurst) {
+      refill();
+      rate = requestsPerMinute;
+      capacity = Math.max(1, nextBurst);
+      tokens = Math.min(tokens, capacity);
+    },
+  };
+}
+
+export interface JobQueue<T> {
+  enqueue(id: string, task: QueueTask<T>): void;
+  pause(): void;
+  resume(): void;
+  cancel(id: string): void;
+  cancelAll(): void;
+  configure(options: Pick<JobQueueOptions<T>, 'concurrency' | 'requestsPerMinute'>): void;
+  getSnapshot(): QueueSnapshot;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createJobQueue<T>(options: JobQueueOptions<T>): JobQueue<T> {
+  let { concurrency, requestsPerMinute } = options;
+  const limiter = createRateLimiter(requestsPerMinute, concurrency);
+  const pending: { id: string; task: QueueTask<T> }[] = [];
+  const running = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+  let paused = false;
+  let haltReason: string | null = null;
+  let counts = { succeeded: 0, failed: 0, cancelled: 0 };
+  let snapshot: QueueSnapshot = { state: 'idle', queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0, total: 0, haltReason: null };
+
+  const notify = () => {
+    const state: QueueState = pending.length === 0 && running.size === 0 ? 'idle' : paused ? 'paused' : 'running';
+    snapshot = {
+      state,
+      queued: pending.length,
+      running: running.size,
+      ...counts,
+      total: pending.length + running.size + counts.succeeded + counts.failed + counts.cancelled,
+      haltReason,
+    };
+    listeners.forEach(listener => listener());
+  };
+
+  const runTask = async (id: string, task: QueueTask<T>, controller: AbortController) => {
+    try {
+      await limiter.acquire(controller.signal);
+      const blocked = paused ? null : options.canStart?.(id) ?? null;
+      if (blocked) {
+        paused = true;
+        haltReason = blocked;
+      }
+      if (paused) {
+        // Paused while waiting for a token, or refused: hand the job back without starting it.
+        running.delete(id);
+        pending.unshift({ id, task });
+        notify();
+        return;
+      }
+      options.onEvent({ type: 'start', id });
+      const result = await task(controller.signal);
+      if (controller.signal.aborted) {
+        throw createAbortError();
+      }
+      counts.succeeded++;
+      options.onEvent({ type: 'success', id, result });
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        counts.cancelled++;
+        options.onEvent({ type: 'cancelled', id });
+      } else {
+        counts.failed++;
+        const failure = error instanceof Error ? error : new Error(String(error));
+        if (options.shouldHalt?.(failure) && !haltReason) {
+          paused = true;
+          haltReason = failure.message;
+        }
+        options.onEvent({ type: 'error', id, error: failure });
+      }
+    }
+    running.delete(id);
+    pump();
+  };
+
+  const pump = () => {
+    while (!paused && running.size < concurrency && pending.length > 0) {
+      const { id, task } = pending.shift()!;
+      const controller = new AbortController();
+      running.set(id, controller);
+      void runTask(id, task, controller);
+    }
+    notify();
+  };
+
+  return {
+    enqueue(id, task) {
+      if (pending.length === 0 && running.size === 0) {
+        counts = { succeeded: 0, failed: 0, cancelled: 0 };
+        paused = false;
+        haltReason = null;
+      }
+      if (running.has(id) || pending.some(p => p.id === id)) {
+        return;
+      }
+      pending.push({ id, task });
+      pump();
+    },
+    pause() {
+      paused = true;
+      notify();
+    },
+    resume() {
+      paused = false;
+      haltReason = null;
+      pump();
+    },
+    cancel(id) {
+      const index = pending.findIndex(p => p.id === id);
+      if (index !== -1) {
+        pending.splice(index, 1);
+        counts.cancelled++;
+        options.onEvent({ type: 'cancelled', id });
+        notify();
+        return;
+      }
+      running.get(id)?.abort();
+    },
+    cancelAll() {
+      const dropped = pending.splice(0, pending.length);
+      dropped.forEach(({ id }) => {
+        counts.cancelled++;
+        options.onEvent({ type: 'cancelled', id });
+      });
+      running.forEach(controller => controller.abort());
+      paused = false;
+      haltReason = null;
+      notify();
+    },
+    configure(next) {
+      concurrency = Math.max(1, next.concurrency);
+      requestsPerMinute = Math.max(0, next.requestsPerMinute);
+      limiter.configure(requestsPerMinute, concurrency);
+      pump();
+    },
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import type { ImageJob, ImageVersion, JobOverrides, SceneMetadata } from "../types.ts";
+
+export const createJobId = (): string => crypto.randomUUID();
+
+export const createImageJob = (prompt: string, scene?: SceneMetadata): ImageJob =>
+  scene ? { id: createJobId(), prompt, status: 'pending', scene } : { id: createJobId(), prompt, status: 'pending' };
+
+export const createTemplateJob = (prompt: string, overrides: JobOverrides): ImageJob =>
+  Object.keys(overrides).length > 0 ? { ...createImageJob(prompt), overrides } : createImageJob(prompt);
+
+// Jobs that a "Generate Images" run should pick up.
+export const isRunnableJob = (job: ImageJob): boolean =>
+  job.prompt.trim() !== '' && (job.status === 'pending' || job.status === 'failed' || job.status === 'cancelled'
+  || (job.status === 'success' && !!job.stale));
+
+export const MAX_VARIANTS = 4;
+
+export const isActiveJob = (job: ImageJob): boolean => job.status === 'queued' || job.status === 'generating';
+
+// An image that no longer matches its prompt is kept but flagged, so it is never passed off as current.
+export function updateJobPrompt(job: ImageJob, prompt: string): ImageJob {
+  if (prompt === job.prompt) return job;
+  return { ...job, prompt, stale: job.status === 'success' ? true : job.stale };
+}
+
+export function moveJob(jobs: ImageJob[], fromIndex: number, toIndex: number): ImageJob[] {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= jobs.length) return jobs;
+  const next = [...jobs];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, moved);
+  return next;
+}
+
+export function chooseVariant(job: ImageJob, index: number): ImageJob {
+  const src = job.variants?.[index];
+  if (!src) return job;
+  // Picking another candidate replaces an unedited generation rather than adding to the history.
+  const current = currentVersion(job);
+  if (current && !current.instruction && job.variants?.includes(current.src)) {
+    return { ...job, src, versions: job.versions!.map(version => version === current ? { ...version, src } : version) };
+  }
+  return withCurrentVersion({ ...job, src });
+}
+
+const createVersion = (src: string, details: Omit<ImageVersion, 'id' | 'src' | 'createdAt'> = {}): ImageVersion =>
+  ({ id: crypto.randomUUID(), src, createdAt: Date.now(), ...details });
+
+export const currentVersion = (job: ImageJob): ImageVersion | undefined =>
+  job.versions?.find(version => version.src === job.src);
+
+// Jobs with a history keep every new image in it, including ones generated from the prompt.
+export function withCurrentVersion(job: ImageJob): ImageJob {
+  if (!job.versions || !job.src || currentVersion(job)) return job;
+  return { ...job, versions: [...job.versions, createVersion(job.src, { providerId: job.providerId, model: job.model })] };
+}
+
+// The first edit starts the history with the image it was made from.
+export function addEditedVersion(
+  job: ImageJob,
+  src: string,
+  details: Pick<ImageVersion, 'instruction' | 'masked' | 'providerId' | 'model'>
+): ImageJob {
+  if (!job.src) return job;
+  const base = withCurrentVersion(job.versions ? job : { ...job, versions: [] });
+  const edited = createVersion(src, { ...details, parentId: currentVersion(base)?.id });
+  return { ...base, src, versions: [...base.versions!, edited] };
+}
+
+export function selectVersion(job: ImageJob, versionId: string): ImageJob {
+  const version = job.versions?.find(v => v.id === versionId);
+  return version ? { ...job, src: version.src } : job;
+}
+
+// Edit instructions from the first generated image to the given version, oldest first.
+export function editChain(job: ImageJob, version: ImageVersion | undefined = currentVersion(job)): string[] {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  for (let v = version; v && !seen.has(v.id); v = job.versions?.find(other => other.id === v!.parentId)) {
+    seen.add(v.id);
+    if (v.instruction) chain.unshift(v.instruction);
+  }
+  return chain;
+}
@@ -0,0 +1,162 @@
+import type { AspectRatio, ImageEditRequest, ImageGenerationRequest, ImageProvider, PromptGenerationOptions, PromptProvider, ScenePrompt } from "../types.ts";
+import type { GeminiBackend, InlineImage } from "./geminiService.ts";
+import { sleep } from "./abortUtils.ts";
+import { createGenerationError } from "./generationErrors.ts";
+import { buildFullPrompt, parseScenePrompts } from "./promptBuilder.ts";
+
+// Offline provider for development: same input always yields the same output, no network involved.
+
+const MOCK_DELAY_MS = 400;
+const MAX_MOCK_PROMPTS = 12;
+// Prompts the mock treats as unsafe, so the safety-block flow can be tried offline.
+const UNSAFE_WORDS = /\b(blood(y)?|gore|gory|kill(s|ed|ing)?|corpse|weapon|gun|knife)\b/i;
+
+// FNV-1a, good enough to spread prompts across colours.
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 512, height: 512 },
+  '9:16': { width: 288, height: 512 },
+  '16:9': { width: 512, height: 288 },
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+export function renderMockImage(text: string, aspectRatio: AspectRatio, seed: string = text): string {
+  const hash = hashString(seed);
+  const { width, height } = DIMENSIONS[aspectRatio];
+  const hueA = hash % 360;
+  const hueB = (hueA + 40 + (hash >> 9) % 120) % 360;
+  const label = escapeXml(text.length > 80 ? `${text.slice(0, 77)}...` : text);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hueA},60%,45%)"/><stop offset="1" stop-color="hsl(${hueB},60%,25%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#g)"/>`
+    + `<circle cx="${width * 0.7}" cy="${height * 0.3}" r="${Math.min(width, height) * 0.15}" fill="hsla(${hueB},80%,70%,0.5)"/>`
+    + `<foreignObject x="16" y="16" width="${width - 32}" height="${height - 32}">`
+    + `<div xmlns="http://www.w3.org/1999/xhtml" style="font:14px sans-serif;color:white;display:flex;align-items:flex-end;height:100%">${label}</div>`
+    + `</foreignObject></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+}
+
+export async function generateMockImage(request: ImageGenerationRequest): Promise<string[]> {
+  const { prompt, styleKeywords, negativePrompt, referenceImages, characters, aspectRatio, model, variants, signal } = request;
+  await sleep(MOCK_DELAY_MS, signal);
+  if (UNSAFE_WORDS.test(prompt)) {
+    throw createGenerationError('safety-blocked', `Failed for prompt "${prompt}": blocked by the mock safety filter.`);
+  }
+  const fullPrompt = buildFullPrompt(prompt, styleKeywords, aspectRatio, false, characters, negativePrompt);
+  const seed = `${model}|${fullPrompt}|${referenceImages.map(image => image.base64.length).join(',')}`;
+  return Array.from({ length: variants }, (_, i) => renderMockImage(fullPrompt, aspectRatio, i === 0 ? seed : `${seed}|${i}`));
+}
+
+const NOT_NAMES = new Set(['The', 'She', 'His', 'Her', 'They', 'Then', 'There', 'When', 'And', 'But', 'This', 'That', 'Its']);
+const CUE_TIMING = /^\s*\[[^\]]*-->[^\]]*\]\s*/;
+const HEADING = /^\s*(?:INT|EXT|INT\.\/EXT)\.?\s+(.+?)(?:\s+-\s+.*)?$/;
+
+// Capitalised words are a crude but deterministic stand-in for character names.
+const guessCharacters = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\b([A-Z][a-z]{2,})\b/g)) {
+    if (!NOT_NAMES.has(match[1])) names.add(match[1]);
+  }
+  return Array.from(names).slice(0, 4);
+};
+
+// Draws a new placeholder labelled with the instruction, seeded by the image it started from.
+export async function editMockImage(request: ImageEditRequest): Promise<string> {
+  const { image, instruction, mask, aspectRatio, model, signal } = request;
+  await sleep(MOCK_DELAY_MS, signal);
+  if (UNSAFE_WORDS.test(instruction)) {
+    throw createGenerationError('safety-blocked', `Edit "${instruction}" failed: blocked by the mock safety filter.`);
+  }
+  const label = `Edited${mask ? ' (masked)' : ''}: ${instruction}`;
+  return renderMockImage(label, aspectRatio, `${model}|${hashString(image)}|${mask ? hashString(mask) : ''}|${instruction}`);
+}
+
+export async function generateMockPrompts(script: string, _model: string, options: PromptGenerationOptions = {}): Promise<ScenePrompt[]> {
+  await sleep(MOCK_DELAY_MS);
+  // Scene headings are not illustrated themselves; they set the location for what follows.
+  let setting = '';
+  const passages: { text: string; setting: string }[] = [];
+  script.split(/\n\s*\n/).forEach(paragraph => {
+    const heading = paragraph.match(HEADING);
+    if (heading) {
+      setting = heading[1].trim();
+      return;
+    }
+    paragraph
+      .replace(CUE_TIMING, '')
+      .split(/(?<=[.!?])\s+/)
+      .map(s => s.trim())
+      .filter(s => s.length > 0)
+      .forEach(text => passages.push({ text, setting }));
+  });
+
+  const groupSize = Math.max(1, Math.ceil(passages.length / (options.targetCount ?? MAX_MOCK_PROMPTS)));
+  const scenes = [];
+  for (let i = 0; i < passages.length; i += groupSize) {
+    const group = passages.slice(i, i + groupSize);
+    const excerpt = group.map(p => p.text).join(' ');
+    scenes.push({
+      sceneNumber: scenes.length + 1,
+      sourceExcerpt: excerpt,
+      setting: group[0].setting,
+      characters: guessCharacters(excerpt),
+      shotType: ['wide shot', 'medium shot', 'close-up'][scenes.length % 3],
+      prompt: `A detailed illustration of: ${excerpt}`,
+    });
+  }
+  return parseScenePrompts(scenes, script);
+}
+
+export async function rewriteMockPromptSafely(prompt: string, _model: string): Promise<string> {
+  await sleep(MOCK_DELAY_MS);
+  return `${prompt.replace(new RegExp(UNSAFE_WORDS.source, 'gi'), '').replace(/\s{2,}/g, ' ').trim()}, tasteful, non-graphic`;
+}
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.base64}`;
+
+// The mock behind the Gemini proxy's interface, so the proxy can serve a local test endpoint
+// (PROXY_MOCK=1) that needs no key. Only the size of a reference reaches the seed, so an empty
+// file of the right type stands in for each one.
+export const createMockGeminiBackend = (): GeminiBackend => ({
+  generatePrompts: generateMockPrompts,
+  generateImages: ({ referenceImages, ...request }) => generateMockImage({
+    ...request,
+    referenceImages: referenceImages.map(({ base64, mimeType }) => ({ base64, file: new File([], 'reference', { type: mimeType }) })),
+  }),
+  editImage: ({ image, mask, ...request }) => editMockImage({ ...request, image: toDataUrl(image), mask: mask && toDataUrl(mask) }),
+  rewritePrompt: (prompt, model) => rewriteMockPromptSafely(prompt, model),
+});
+
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  models: [
+    {
+      id: 'mock-image',
+      label: 'Mock placeholder',
+      capabilities: { referenceImages: true, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: true, maxVariants: 4, editing: true },
+    },
+  ],
+  generateImage: generateMockImage,
+  editImage: editMockImage,
+};
+
+export const mockPromptProvider: PromptProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  models: [{ id: 'mock-prompts', label: 'Sentence splitter' }],
+  generatePrompts: generateMockPrompts,
+  rewritePromptSafely: rewriteMockPromptSafely,
+};
@@ -0,0 +1,218 @@
+import type { AspectRatio, ImageEditRequest, ImageGenerationRequest, ImageProvider, PromptGenerationOptions, PromptProvider, ScenePrompt, UsageReporter } from "../types.ts";
+import { getOpenAiApiKey } from "./apiKeyStore.ts";
+import { dataUrlToBlob, extensionForMimeType } from "./fileUtils.ts";
+import { createGenerationError, createHttpError } from "./generationErrors.ts";
+import { buildFullPrompt, buildPromptGenerationInstruction, cleanRewrittenPrompt, parseScenePrompts, SAFE_REWRITE_INSTRUCTION } from "./promptBuilder.ts";
+
+// Any server that implements the OpenAI images and chat completions endpoints can be used here.
+// In the app the key is the one saved in this browser; the command-line runner reads OPENAI_API_KEY.
+const getConfig = () => {
+    const hasEnv = typeof process !== 'undefined' && !!process.env;
+    const baseUrl = ((hasEnv ? process.env.OPENAI_BASE_URL : undefined) || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const apiKey = getOpenAiApiKey() ?? (hasEnv ? process.env.OPENAI_API_KEY : undefined);
+    if (!apiKey) {
+        throw createGenerationError('missing-api-key', "No OpenAI API key is set. Enter one under OpenAI access, or set OPENAI_API_KEY for the command-line runner.");
+    }
+    return { baseUrl, apiKey };
+};
+
+const SIZES: Record<string, Record<AspectRatio, string>> = {
+  'gpt-image-1': { '1:1': '1024x1024', '9:16': '1024x1536', '16:9': '1536x1024' },
+  'dall-e-3': { '1:1': '1024x1024', '9:16': '1024x1792', '16:9': '1792x1024' },
+};
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body?.error?.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+// Chat completions report prompt/completion tokens; the images API (gpt-image-1) input/output tokens.
+const reportUsage = (usage: any, onUsage: UsageReporter | undefined) => {
+  if (!usage || !onUsage) return;
+  onUsage({
+    inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+  });
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+export async function generateOpenAiImage(request: ImageGenerationRequest): Promise<string[]> {
+  const { prompt, styleKeywords, negativePrompt, referenceImages, characters, aspectRatio, model, variants, signal, onUsage } = request;
+  const { baseUrl, apiKey } = getConfig();
+  const fullPrompt = buildFullPrompt(prompt, styleKeywords, aspectRatio, false, characters, negativePrompt);
+  const size = (SIZES[model] || SIZES['gpt-image-1'])[aspectRatio];
+
+  let response: Response;
+  if (referenceImages.length > 0) {
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', fullPrompt);
+    form.append('size', size);
+    form.append('n', String(variants));
+    referenceImages.forEach(image => {
+      form.append('image[]', base64ToBlob(image.base64, image.file.type), image.file.name);
+    });
+    response = await fetch(`${baseUrl}/images/edits`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}` },
+      body: form,
+      signal,
+    });
+  } else {
+    const body: Record<string, unknown> = { model, prompt: fullPrompt, n: variants, size };
+    // gpt-image-1 always returns base64 and rejects response_format.
+    if (model !== 'gpt-image-1') {
+      body.response_format = 'b64_json';
+    }
+    response = await fetch(`${baseUrl}/images/generations`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  if (!response.ok) {
+    throw createHttpError(response, `${response.status} ${await readError(response)}`, `Failed for prompt "${prompt}"`);
+  }
+  const result = await response.json();
+  reportUsage(result?.usage, onUsage);
+  const images: string[] = (result?.data ?? [])
+    .map((item: any) => item?.b64_json)
+    .filter(Boolean)
+    .map((b64: string) => `data:image/png;base64,${b64}`);
+  if (images.length === 0) {
+    throw new Error(`Failed for prompt "${prompt}": No image data found in the response.`);
+  }
+  return images;
+}
+
+// OpenAI masks mark the area to change with transparency rather than white.
+async function toTransparentMask(mask: string): Promise<Blob> {
+  const bitmap = await createImageBitmap(dataUrlToBlob(mask));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0);
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i] > 127 ? 0 : 255;
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+export async function editOpenAiImage(request: ImageEditRequest): Promise<string> {
+  const { image, instruction, mask, aspectRatio, model, signal, onUsage } = request;
+  const { baseUrl, apiKey } = getConfig();
+  const source = dataUrlToBlob(image);
+  const form = new FormData();
+  form.append('model', model);
+  form.append('prompt', instruction);
+  form.append('size', (SIZES[model] || SIZES['gpt-image-1'])[aspectRatio]);
+  form.append('image', source, `image.${extensionForMimeType(source.type)}`);
+  if (mask) {
+    form.append('mask', await toTransparentMask(mask), 'mask.png');
+  }
+  const response = await fetch(`${baseUrl}/images/edits`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: form,
+    signal,
+  });
+  if (!response.ok) {
+    throw createHttpError(response, `${response.status} ${await readError(response)}`, `Edit "${instruction}" failed`);
+  }
+  const result = await response.json();
+  reportUsage(result?.usage, onUsage);
+  const edited = result?.data?.[0]?.b64_json;
+  if (!edited) {
+    throw new Error(`Edit "${instruction}" failed: No image data found in the response.`);
+  }
+  return `data:image/png;base64,${edited}`;
+}
+
+export async function generateOpenAiPrompts(script: string, model: string, options: PromptGenerationOptions = {}): Promise<ScenePrompt[]> {
+  const { baseUrl, apiKey } = getConfig();
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: `${buildPromptGenerationInstruction(options.targetCount)} Wrap the array in an object under the key "scenes"; each scene object has the keys sceneNumber, sourceExcerpt, setting, characters, shotType and prompt.` },
+        { role: 'user', content: script },
+      ],
+    }),
+  });
+  if (!response.ok) {
+    throw createHttpError(response, `${response.status} ${await readError(response)}`, 'Prompt generation failed');
+  }
+  const result = await response.json();
+  reportUsage(result?.usage, options.onUsage);
+  const content = result?.choices?.[0]?.message?.content ?? '';
+  return parseScenePrompts(JSON.parse(content)?.scenes, script);
+}
+
+export async function rewriteOpenAiPromptSafely(prompt: string, model: string, onUsage?: UsageReporter): Promise<string> {
+  const { baseUrl, apiKey } = getConfig();
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: SAFE_REWRITE_INSTRUCTION },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+  if (!response.ok) {
+    throw createHttpError(response, `${response.status} ${await readError(response)}`, 'Prompt rewrite failed');
+  }
+  const result = await response.json();
+  reportUsage(result?.usage, onUsage);
+  const rewritten = cleanRewrittenPrompt(result?.choices?.[0]?.message?.content ?? '');
+  if (!rewritten) {
+    throw new Error("The model did not return a rewritten prompt.");
+  }
+  return rewritten;
+}
+
+export const openAiImageProvider: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  models: [
+    {
+      id: 'gpt-image-1',
+      label: 'GPT Image 1',
+      capabilities: { referenceImages: true, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: true, maxVariants: 4, editing: true },
+    },
+    {
+      id: 'dall-e-3',
+      label: 'DALL·E 3',
+      capabilities: { referenceImages: false, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: true, maxVariants: 1, editing: false },
+    },
+  ],
+  generateImage: generateOpenAiImage,
+  editImage: editOpenAiImage,
+};
+
+export const openAiPromptProvider: PromptProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  models: [
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini' },
+    { id: 'gpt-4o', label: 'GPT-4o' },
+  ],
+  generatePrompts: generateOpenAiPrompts,
+  rewritePromptSafely: rewriteOpenAiPromptSafely,
+};
@@ -0,0 +1,212 @@
+// Minimal PDF writer for client-side documents: pages of text in the standard Helvetica fonts,
+// JPEG images and grey boxes. Coordinates are in points from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export interface PdfPage {
+  // y is the baseline; gray runs from 0 (black) to 1 (white).
+  text(text: string, x: number, y: number, size: number, font?: PdfFont, gray?: number): void;
+  image(id: number, x: number, y: number, width: number, height: number): void;
+  rect(x: number, y: number, width: number, height: number, style: { fill?: number; stroke?: number }): void;
+}
+
+export interface PdfDocument {
+  // A baseline JPEG; returns the id to draw it with.
+  addImage(jpeg: Uint8Array, width: number, height: number): number;
+  addPage(width: number, height: number): PdfPage;
+  toBlob(title: string): Blob;
+}
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique' };
+const FONT_KEYS: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+// Advance widths of ASCII 32-126 in thousandths of the font size, from the Adobe font metrics.
+// Oblique shares the regular widths; other characters are counted as a digit.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typographic characters outside Latin-1 that WinAnsiEncoding still has.
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// The text as WinAnsi character codes; anything the standard fonts cannot show becomes "?".
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI[char]) out += String.fromCharCode(WIN_ANSI[char]);
+    else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) out += char;
+    else if (/\s/.test(char)) out += ' ';
+    else out += '?';
+  }
+  return out;
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Greedy word wrap; the last line ends in an ellipsis when the text does not fit.
+export function wrapText(text: string, size: number, font: PdfFont, maxWidth: number, maxLines: number): string[] {
+  const fits = (line: string) => textWidth(line, size, font) <= maxWidth;
+  const lines: string[] = [];
+  let line = '';
+  let overflow = false;
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest && !overflow) {
+      const candidate = line ? `${line} ${rest}` : rest;
+      if (fits(candidate)) {
+        line = candidate;
+        rest = '';
+      } else if (line) {
+        lines.push(line);
+        line = '';
+      } else {
+        // A word wider than the line is broken where it overflows.
+        let cut = rest.length - 1;
+        while (cut > 1 && !fits(rest.slice(0, cut))) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      overflow = lines.length >= maxLines && (rest !== '' || line !== '');
+    }
+    if (overflow) break;
+  }
+  if (!overflow && line && lines.length < maxLines) lines.push(line);
+  if (overflow && lines.length > 0) {
+    let last = lines[maxLines - 1];
+    while (last && !fits(`${last}…`)) last = last.slice(0, -1);
+    lines[maxLines - 1] = `${last.trimEnd()}…`;
+  }
+  return lines.slice(0, maxLines);
+}
+
+const number = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const escapeString = (text: string) => toWinAnsi(text).replace(/[\\()]/g, '\\$&');
+
+// Document strings outside ASCII are written as UTF-16 with a byte order mark.
+function textString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return `(${text.replace(/[\\()]/g, '\\$&')})`;
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+const pdfDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+// Content streams are built as strings of character codes below 256 and written byte for byte.
+const latin1Bytes = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+interface PageRecord {
+  width: number;
+  height: number;
+  content: string[];
+  images: Set<number>;
+}
+
+export function createPdfDocument(): PdfDocument {
+  const images: { data: Uint8Array; width: number; height: number }[] = [];
+  const pages: PageRecord[] = [];
+
+  return {
+    addImage(data, width, height) {
+      images.push({ data, width, height });
+      return images.length - 1;
+    },
+
+    addPage(width, height) {
+      const page: PageRecord = { width, height, content: [], images: new Set() };
+      pages.push(page);
+      const y = (top: number) => number(height - top);
+      return {
+        text(text, x, baseline, size, font = 'regular', gray = 0) {
+          page.content.push(`BT /${FONT_KEYS[font]} ${number(size)} Tf ${number(gray)} g 1 0 0 1 ${number(x)} ${y(baseline)} Tm (${escapeString(text)}) Tj ET`);
+        },
+        image(id, x, top, w, h) {
+          page.images.add(id);
+          page.content.push(`q ${number(w)} 0 0 ${number(h)} ${number(x)} ${y(top + h)} cm /Im${id} Do Q`);
+        },
+        rect(x, top, w, h, { fill, stroke }) {
+          const path = `${number(x)} ${y(top + h)} ${number(w)} ${number(h)} re`;
+          if (fill !== undefined) page.content.push(`${number(fill)} g ${path} f`);
+          if (stroke !== undefined) page.content.push(`${number(stroke)} G 0.5 w ${path} S`);
+        },
+      };
+    },
+
+    toBlob(title) {
+      const chunks: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? latin1Bytes(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+      };
+      const object = (id: number, body: string | Uint8Array[]) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+        if (typeof body === 'string') write(body);
+        else body.forEach(write);
+        write('\nendobj\n');
+      };
+      const stream = (dictionary: string, data: Uint8Array) =>
+        [latin1Bytes(`<< ${dictionary} /Length ${data.length} >>\nstream\n`), data, latin1Bytes('\nendstream')];
+
+      // 1 catalog, 2 page tree, 3 info, 4-6 fonts, then images, then a page and its content per page.
+      const firstImage = 7;
+      const firstPage = firstImage + images.length;
+      const pageIds = pages.map((_, i) => firstPage + i * 2);
+
+      write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+      object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+      object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      object(3, `<< /Title ${textString(title)} /Producer (Bulk AI Image Generator) /CreationDate (${pdfDate(new Date())}) >>`);
+      (['regular', 'bold', 'italic'] as PdfFont[]).forEach((font, i) => {
+        object(4 + i, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`);
+      });
+      images.forEach((image, i) => {
+        object(firstImage + i, stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+          image.data
+        ));
+      });
+      pages.forEach((page, i) => {
+        const xObjects = Array.from(page.images, id => `/Im${id} ${firstImage + id} 0 R`).join(' ');
+        object(pageIds[i], `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}]`
+          + ` /Resources << /Font << /F1 4 0 R /F2 5 0 R /F3 6 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`
+          + ` /Contents ${pageIds[i] + 1} 0 R >>`);
+        object(pageIds[i] + 1, stream('', latin1Bytes(page.content.join('\n'))));
+      });
+
+      const xref = length;
+      const count = firstPage + pages.length * 2;
+      write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+      for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+      write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+      return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+    },
+  };
+}
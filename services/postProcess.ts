@@ -0,0 +1,313 @@
+import type { AspectRatio, ImageJob, OverlayCorner, PostProcessSettings, Project } from "../types.ts";
+import { getDataUrlMimeType } from "./fileUtils.ts";
+import { stripCueTimings } from "./scriptImport.ts";
+
+// Browser-side finishing of generated images: exact-ratio crop, resize, re-encode and text
+// overlays. Always works from the original, so settings can change without regenerating.
+
+export const DEFAULT_POST_PROCESS: PostProcessSettings = {
+  enabled: false,
+  crop: 'center',
+  longEdge: 0,
+  format: 'original',
+  quality: 90,
+  watermark: '',
+  watermarkCorner: 'bottom-right',
+  sceneNumber: false,
+  caption: false,
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Text drawn over one job's image.
+export interface OverlayText {
+  sceneNumber: number;
+  caption: string;
+}
+
+// Result of processing a job's hero image, cached by source and settings.
+export interface ProcessedImage {
+  source: string;
+  key: string;
+  src?: string;
+  error?: string;
+}
+
+const RATIOS: Record<AspectRatio, number> = { '1:1': 1, '9:16': 9 / 16, '16:9': 16 / 9 };
+
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Long side of the copy used to find the detailed part of the frame.
+const SMART_CROP_SAMPLE = 96;
+
+// Largest rectangle of the ratio that fits; offset (0-1) places it along the axis that is cut.
+export function cropRect(width: number, height: number, aspectRatio: AspectRatio, offset = 0.5): Rect {
+  const target = RATIOS[aspectRatio];
+  if (Math.abs(width / height - target) < 0.005) return { x: 0, y: 0, width, height };
+  if (width / height > target) {
+    const cropWidth = Math.round(height * target);
+    return { x: Math.round((width - cropWidth) * offset), y: 0, width: cropWidth, height };
+  }
+  const cropHeight = Math.round(width / target);
+  return { x: 0, y: Math.round((height - cropHeight) * offset), width, height: cropHeight };
+}
+
+// Output dimensions of a cropped image, whatever size the model returned.
+export function targetDimensions(aspectRatio: AspectRatio, longEdge: number): { width: number; height: number } {
+  const ratio = RATIOS[aspectRatio];
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+}
+
+export function outputSize(crop: Pick<Rect, 'width' | 'height'>, longEdge: number): { width: number; height: number } {
+  if (longEdge <= 0) return { width: crop.width, height: crop.height };
+  const scale = longEdge / Math.max(crop.width, crop.height);
+  return { width: Math.max(1, Math.round(crop.width * scale)), height: Math.max(1, Math.round(crop.height * scale)) };
+}
+
+// Start of the run of `length` entries with the highest total; ties go to the one nearest the centre.
+export function bestWindowStart(profile: number[], length: number): number {
+  if (length >= profile.length) return 0;
+  const centre = (profile.length - length) / 2;
+  let sum = profile.slice(0, length).reduce((total, value) => total + value, 0);
+  let best = sum;
+  let bestStart = 0;
+  for (let start = 1; start + length <= profile.length; start++) {
+    sum += profile[start + length - 1] - profile[start - 1];
+    const isTie = Math.abs(sum - best) < 1e-6;
+    if ((sum > best && !isTie) || (isTie && Math.abs(start - centre) < Math.abs(bestStart - centre))) {
+      best = sum;
+      bestStart = start;
+    }
+  }
+  return bestStart;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("This browser cannot process images (no 2D canvas).");
+  return { canvas, context };
+};
+
+// Edge strength summed per column (or row) of a small copy: detail scores high, flat sky and walls low.
+function energyProfile(image: HTMLImageElement, alongWidth: boolean): number[] {
+  const scale = Math.min(1, SMART_CROP_SAMPLE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(2, Math.round(image.naturalWidth * scale));
+  const height = Math.max(2, Math.round(image.naturalHeight * scale));
+  const { context } = createCanvas(width, height);
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const luma = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  const profile = new Array<number>(alongWidth ? width : height).fill(0);
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const here = luma(x, y);
+      profile[alongWidth ? x : y] += Math.abs(luma(x + 1, y) - here) + Math.abs(luma(x, y + 1) - here);
+    }
+  }
+  return profile;
+}
+
+function smartCropRect(image: HTMLImageElement, aspectRatio: AspectRatio): Rect {
+  const centred = cropRect(image.naturalWidth, image.naturalHeight, aspectRatio);
+  const alongWidth = centred.width < image.naturalWidth;
+  if (!alongWidth && centred.height === image.naturalHeight) return centred;
+  let profile: number[];
+  try {
+    profile = energyProfile(image, alongWidth);
+  } catch {
+    // The pixels of a tainted image cannot be read; a centred crop still works.
+    return centred;
+  }
+  const fraction = alongWidth ? centred.width / image.naturalWidth : centred.height / image.naturalHeight;
+  const window = Math.max(1, Math.round(profile.length * fraction));
+  const free = profile.length - window;
+  return cropRect(image.naturalWidth, image.naturalHeight, aspectRatio, free > 0 ? bestWindowStart(profile, window) / free : 0.5);
+}
+
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (context.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = `${kept[maxLines - 1]}…`;
+  while (last.length > 1 && context.measureText(last).width > maxWidth) {
+    last = `${last.slice(0, -2)}…`;
+  }
+  kept[maxLines - 1] = last;
+  return kept;
+}
+
+// Caption band along the bottom edge; returns its height so corner labels can sit above it.
+function drawCaption(context: CanvasRenderingContext2D, text: string, width: number, height: number): number {
+  const fontSize = Math.max(12, Math.round(height * 0.04));
+  const lineHeight = Math.round(fontSize * 1.25);
+  const padding = Math.round(fontSize * 0.6);
+  context.font = `600 ${fontSize}px sans-serif`;
+  const lines = wrapText(context, text, width * 0.9, 3);
+  const bandHeight = lines.length * lineHeight + padding * 2;
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, height - bandHeight, width, bandHeight);
+  context.fillStyle = '#ffffff';
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  lines.forEach((line, i) => context.fillText(line, width / 2, height - bandHeight + padding + i * lineHeight));
+  return bandHeight;
+}
+
+function drawCornerLabel(
+  context: CanvasRenderingContext2D,
+  text: string,
+  corner: OverlayCorner,
+  width: number,
+  height: number,
+  options: { bottomInset: number; background: boolean }
+) {
+  const fontSize = Math.max(11, Math.round(Math.min(width, height) * 0.035));
+  const margin = Math.round(fontSize * 0.8);
+  const padding = Math.round(fontSize * 0.4);
+  context.font = `700 ${fontSize}px sans-serif`;
+  const textWidth = context.measureText(text).width;
+  const isRight = corner.endsWith('right');
+  const isBottom = corner.startsWith('bottom');
+  const x = isRight ? width - margin - textWidth - padding : margin + padding;
+  const y = isBottom ? height - options.bottomInset - margin - fontSize - padding : margin + padding;
+  if (options.background) {
+    context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    context.fillRect(x - padding, y - padding, textWidth + padding * 2, fontSize + padding * 2);
+  }
+  context.fillStyle = options.background ? '#ffffff' : 'rgba(255, 255, 255, 0.7)';
+  context.shadowColor = options.background ? 'transparent' : 'rgba(0, 0, 0, 0.6)';
+  context.shadowBlur = options.background ? 0 : Math.round(fontSize / 4);
+  context.textAlign = 'left';
+  context.textBaseline = 'top';
+  context.fillText(text, x, y);
+  context.shadowBlur = 0;
+  context.shadowColor = 'transparent';
+}
+
+const outputMimeType = (settings: PostProcessSettings, sourceType: string) =>
+  settings.format === 'original'
+    ? (PASSTHROUGH_TYPES.includes(sourceType) ? sourceType : 'image/png')
+    : `image/${settings.format}`;
+
+async function loadImage(src: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = src;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error("The image could not be decoded for post-processing.");
+  }
+  return image;
+}
+
+export const overlayTextForJob = (job: ImageJob, index: number): OverlayText => ({
+  sceneNumber: job.scene?.sceneNumber ?? index + 1,
+  caption: job.scene?.sourceExcerpt ? stripCueTimings(job.scene.sourceExcerpt) : '',
+});
+
+// Everything the output depends on besides the source image.
+export const postProcessKey = (settings: PostProcessSettings, aspectRatio: AspectRatio, overlay: OverlayText): string =>
+  JSON.stringify([settings, aspectRatio, settings.sceneNumber ? overlay.sceneNumber : null, settings.caption ? overlay.caption : null]);
+
+export async function processImage(
+  src: string,
+  aspectRatio: AspectRatio,
+  settings: PostProcessSettings,
+  overlay: OverlayText
+): Promise<string> {
+  const image = await loadImage(src);
+  const crop = settings.crop === 'none'
+    ? { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight }
+    : settings.crop === 'smart' ? smartCropRect(image, aspectRatio) : cropRect(image.naturalWidth, image.naturalHeight, aspectRatio);
+  const { width, height } = outputSize(crop, settings.longEdge);
+  const { canvas, context } = createCanvas(width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+  const bottomInset = settings.caption && overlay.caption ? drawCaption(context, overlay.caption, width, height) : 0;
+  const watermark = settings.watermark.trim();
+  if (watermark) {
+    drawCornerLabel(context, watermark, settings.watermarkCorner, width, height, { bottomInset, background: false });
+  }
+  if (settings.sceneNumber) {
+    const corner: OverlayCorner = watermark && settings.watermarkCorner === 'top-left' ? 'top-right' : 'top-left';
+    drawCornerLabel(context, `#${overlay.sceneNumber}`, corner, width, height, { bottomInset, background: true });
+  }
+
+  const mimeType = outputMimeType(settings, getDataUrlMimeType(src));
+  try {
+    return canvas.toDataURL(mimeType, Math.min(100, Math.max(1, settings.quality)) / 100);
+  } catch {
+    // Canvases holding some SVGs (the offline mock's) are tainted and cannot be read back.
+    throw new Error("This image cannot be re-encoded by the browser.");
+  }
+}
+
+// Processed copies of a job's images, by job id and then by the original src. Overlays can
+// number the images, so the same picture in two jobs may come out differently.
+export type ProcessedImages = Map<string, Map<string, string>>;
+
+// Processes the successful jobs' images for an export, leaving the jobs themselves as they are.
+// `cached` returns an already processed hero image for a job, when there is one.
+export async function processProjectImages(
+  project: Project,
+  settings: PostProcessSettings,
+  includeVariants: boolean,
+  cached: (job: ImageJob, index: number) => string | undefined = () => undefined
+): Promise<ProcessedImages> {
+  const processed: ProcessedImages = new Map();
+  for (const [index, job] of project.jobs.entries()) {
+    if (job.status !== 'success' || !job.src) continue;
+    const aspectRatio = job.aspectRatio ?? project.settings.aspectRatio;
+    const overlay = overlayTextForJob(job, index);
+    const images = new Map([[job.src, cached(job, index) ?? await processImage(job.src, aspectRatio, settings, overlay)]]);
+    if (includeVariants) {
+      for (const variant of job.variants ?? []) {
+        if (!images.has(variant)) images.set(variant, await processImage(variant, aspectRatio, settings, overlay));
+      }
+    }
+    processed.set(job.id, images);
+  }
+  return processed;
+}
+
+// Copy of the project with its images swapped for processed versions, for exports that only
+// need the pictures.
+export async function applyPostProcessing(
+  project: Project,
+  settings: PostProcessSettings,
+  includeVariants: boolean,
+  cached?: (job: ImageJob, index: number) => string | undefined
+): Promise<Project> {
+  const processed = await processProjectImages(project, settings, includeVariants, cached);
+  const jobs = project.jobs.map(job => {
+    const images = processed.get(job.id);
+    if (!images || !job.src) return job;
+    return { ...job, src: images.get(job.src)!, variants: job.variants?.map(src => images.get(src) ?? src) };
+  });
+  return { ...project, jobs };
+}
@@ -0,0 +1,348 @@
+import type { CharacterEntry, ImageJob, ImageVersion, Project, ProjectSettings, ProjectSummary, ReferenceImage, UsageEntry } from "../types.ts";
+import { blobToDataUrl, dataUrlToBlob } from "./fileUtils.ts";
+import { DEFAULT_FILENAME_PATTERN } from "./exportService.ts";
+import { DEFAULT_PROVIDER_ID, getImageProvider, getPromptProvider } from "./providerRegistry.ts";
+import { DEFAULT_RETRY_POLICY } from "./retryPolicy.ts";
+import { DEFAULT_POST_PROCESS } from "./postProcess.ts";
+import { DEFAULT_PROMPT_DENSITY } from "./scriptChunker.ts";
+import { DEFAULT_BATCH_SETTINGS } from "./batchTemplate.ts";
+import { DEFAULT_STORYBOARD } from "./storyboard.ts";
+import { DEFAULT_TIMELINE } from "./timeline.ts";
+
+const DB_NAME = 'bulk-image-generator';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+// Image blobs live in their own store so saving a status change does not rewrite every image.
+const BLOBS_STORE = 'blobs';
+const LAST_PROJECT_KEY = 'bulk-image-generator:last-project';
+
+interface ProjectRecord extends ProjectSummary {
+  script: string;
+  settings: ProjectSettings;
+  jobs: StoredJob[];
+  referenceImage: FileMeta | null;
+  characters?: (Omit<CharacterEntry, 'images'> & { images: FileMeta[] })[];
+  usage?: UsageEntry[];
+}
+
+// Images are kept out of the record; storedVariants says how many variant blobs to read back,
+// and each version's blob is keyed by its id.
+type StoredJob = Omit<ImageJob, 'src' | 'variants' | 'versions'> & { storedVariants?: number; versions?: Omit<ImageVersion, 'src'>[] };
+
+interface FileMeta {
+  name: string;
+  type: string;
+}
+
+const referenceKey = (projectId: string) => `${projectId}/reference`;
+const imageKey = (projectId: string, jobId: string) => `${projectId}/jobs/${jobId}`;
+const variantKey = (projectId: string, jobId: string, index: number) => `${projectId}/jobs/${jobId}/variants/${index}`;
+const versionKey = (projectId: string, jobId: string, versionId: string) => `${projectId}/jobs/${jobId}/versions/${versionId}`;
+const characterImageKey = (projectId: string, characterId: string, index: number) =>
+  `${projectId}/characters/${characterId}/${index}`;
+
+const toFileMeta = (image: ReferenceImage): FileMeta => ({ name: image.file.name, type: image.file.type });
+
+// Last persisted src per blob key, so unchanged images are skipped on save.
+const savedSources = new Map<string, string>();
+
+const forgetSavedSources = (projectId: string) => {
+  savedSources.forEach((_, key) => {
+    if (key.startsWith(`${projectId}/`)) savedSources.delete(key);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser, so projects cannot be saved."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("The project transaction was aborted."));
+  });
+
+const readBlob = (store: IDBObjectStore, key: string) => requestToPromise(store.get(key) as IDBRequest<Blob | undefined>);
+
+async function restoreReferenceImage(blob: Blob | undefined, meta: FileMeta, key: string): Promise<ReferenceImage | null> {
+  if (!blob) return null;
+  const file = new File([blob], meta.name, { type: meta.type });
+  const dataUrl = await blobToDataUrl(file);
+  const image = { file, base64: dataUrl.split(',')[1] };
+  savedSources.set(key, image.base64);
+  return image;
+}
+
+function putReferenceImage(store: IDBObjectStore, key: string, image: ReferenceImage, liveKeys: Set<string>) {
+  liveKeys.add(key);
+  if (savedSources.get(key) !== image.base64) {
+    store.put(image.file, key);
+    savedSources.set(key, image.base64);
+  }
+}
+
+const toSummary = ({ id, name, createdAt, updatedAt, jobCount }: ProjectSummary): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt, jobCount });
+
+// A run that was interrupted by a reload can simply be started again.
+const resetInterruptedJob = ({ storedVariants, versions, ...job }: StoredJob): ImageJob =>
+  job.status === 'generating' || job.status === 'queued' ? { ...job, status: 'pending' } : job;
+
+function putImage(store: IDBObjectStore, key: string, src: string, liveKeys: Set<string>) {
+  liveKeys.add(key);
+  if (savedSources.get(key) !== src) {
+    store.put(dataUrlToBlob(src), key);
+    savedSources.set(key, src);
+  }
+}
+
+async function restoreImage(blob: Blob | undefined, key: string): Promise<string | undefined> {
+  if (!blob) return undefined;
+  const src = await blobToDataUrl(blob);
+  savedSources.set(key, src);
+  return src;
+}
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) => localStorage.setItem(LAST_PROJECT_KEY, id);
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDb();
+  const records = await requestToPromise(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll() as IDBRequest<ProjectRecord[]>
+  );
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<Project | null> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE]);
+  const record = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) {
+    return null;
+  }
+  const blobs = tx.objectStore(BLOBS_STORE);
+  const storedCharacters = record.characters ?? [];
+  const [jobBlobs, variantBlobs, versionBlobs, referenceBlob, characterBlobs] = await Promise.all([
+    Promise.all(record.jobs.map(job => readBlob(blobs, imageKey(id, job.id)))),
+    Promise.all(record.jobs.map(job =>
+      Promise.all(Array.from({ length: job.storedVariants ?? 0 }, (_, i) => readBlob(blobs, variantKey(id, job.id, i))))
+    )),
+    Promise.all(record.jobs.map(job =>
+      Promise.all((job.versions ?? []).map(version => readBlob(blobs, versionKey(id, job.id, version.id))))
+    )),
+    record.referenceImage ? readBlob(blobs, referenceKey(id)) : undefined,
+    Promise.all(storedCharacters.map(character =>
+      Promise.all(character.images.map((_, i) => readBlob(blobs, characterImageKey(id, character.id, i))))
+    )),
+  ]);
+
+  const jobs: ImageJob[] = await Promise.all(record.jobs.map(async (job, i) => {
+    const restored = resetInterruptedJob(job);
+    const src = await restoreImage(jobBlobs[i], imageKey(id, job.id));
+    if (src) restored.src = src;
+    const variants = await Promise.all(variantBlobs[i].map((blob, v) => restoreImage(blob, variantKey(id, job.id, v))));
+    if (variants.length > 0) {
+      restored.variants = variants.filter((src): src is string => !!src);
+    }
+    if (job.versions) {
+      const sources = await Promise.all(versionBlobs[i].map((blob, v) => restoreImage(blob, versionKey(id, job.id, job.versions![v].id))));
+      restored.versions = job.versions.flatMap((version, v) => sources[v] ? [{ ...version, src: sources[v]! }] : []);
+    }
+    return restored;
+  }));
+
+  const referenceImage = record.referenceImage
+    ? await restoreReferenceImage(referenceBlob, record.referenceImage, referenceKey(id))
+    : null;
+
+  const characters: CharacterEntry[] = await Promise.all(storedCharacters.map(async (character, c) => {
+    const images = await Promise.all(character.images.map((meta, i) =>
+      restoreReferenceImage(characterBlobs[c][i], meta, characterImageKey(id, character.id, i))
+    ));
+    return { ...character, images: images.filter((image): image is ReferenceImage => image !== null) };
+  }));
+
+  // Settings added after a project was saved fall back to their defaults.
+  const settings = { ...DEFAULT_PROJECT_SETTINGS, ...record.settings };
+  return { ...toSummary(record), script: record.script, settings, jobs, referenceImage, characters, usage: record.usage ?? [] };
+}
+
+export async function saveProject(project: Project): Promise<ProjectSummary> {
+  const db = await openDb();
+  const record: ProjectRecord = {
+    ...toSummary(project),
+    updatedAt: Date.now(),
+    jobCount: project.jobs.length,
+    script: project.script,
+    settings: project.settings,
+    jobs: project.jobs.map(({ src, variants, versions, ...job }) => ({
+      ...job,
+      ...(variants && variants.length > 1 ? { storedVariants: variants.length } : {}),
+      ...(versions ? { versions: versions.map(({ src, ...version }) => version) } : {}),
+    })),
+    referenceImage: project.referenceImage ? toFileMeta(project.referenceImage) : null,
+    characters: project.characters.map(character => ({ ...character, images: character.images.map(toFileMeta) })),
+    usage: project.usage,
+  };
+
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(record);
+  const blobs = tx.objectStore(BLOBS_STORE);
+
+  const liveKeys = new Set<string>();
+  project.jobs.forEach(job => {
+    if (job.src) {
+      putImage(blobs, imageKey(project.id, job.id), job.src, liveKeys);
+    }
+    if (job.variants && job.variants.length > 1) {
+      job.variants.forEach((src, i) => putImage(blobs, variantKey(project.id, job.id, i), src, liveKeys));
+    }
+    job.versions?.forEach(version => putImage(blobs, versionKey(project.id, job.id, version.id), version.src, liveKeys));
+  });
+
+  if (project.referenceImage) {
+    putReferenceImage(blobs, referenceKey(project.id), project.referenceImage, liveKeys);
+  }
+  project.characters.forEach(character => {
+    character.images.forEach((image, i) => {
+      putReferenceImage(blobs, characterImageKey(project.id, character.id, i), image, liveKeys);
+    });
+  });
+
+  const prefix = `${project.id}/`;
+  const storedKeys = await requestToPromise(
+    blobs.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+  storedKeys.forEach(key => {
+    if (!liveKeys.has(key as string)) {
+      blobs.delete(key);
+      savedSources.delete(key as string);
+    }
+  });
+
+  try {
+    await transactionDone(tx);
+  } catch (error) {
+    forgetSavedSources(project.id);
+    throw error;
+  }
+  return toSummary(record);
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const record = await requestToPromise(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (record) {
+    store.put({ ...record, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+export async function duplicateProject(id: string, name: string): Promise<ProjectSummary> {
+  const db = await openDb();
+  const newId = crypto.randomUUID();
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const blobs = tx.objectStore(BLOBS_STORE);
+  const record = await requestToPromise(projects.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) {
+    tx.abort();
+    throw new Error("The project to duplicate no longer exists.");
+  }
+  const now = Date.now();
+  const copy: ProjectRecord = { ...record, id: newId, name, createdAt: now, updatedAt: now };
+  projects.put(copy);
+
+  const prefix = `${id}/`;
+  const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  const [keys, values] = await Promise.all([
+    requestToPromise(blobs.getAllKeys(range)),
+    requestToPromise(blobs.getAll(range) as IDBRequest<Blob[]>),
+  ]);
+  keys.forEach((key, i) => blobs.put(values[i], `${newId}/${(key as string).slice(prefix.length)}`));
+
+  await transactionDone(tx);
+  return toSummary(copy);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  const prefix = `${id}/`;
+  tx.objectStore(BLOBS_STORE).delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+  forgetSavedSources(id);
+  await transactionDone(tx);
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  styleKeywords: '',
+  negativePrompt: '',
+  aspectRatio: '1:1',
+  promptProviderId: DEFAULT_PROVIDER_ID,
+  promptModel: getPromptProvider(DEFAULT_PROVIDER_ID).models[0].id,
+  imageProviderId: DEFAULT_PROVIDER_ID,
+  imageModel: getImageProvider(DEFAULT_PROVIDER_ID).models[0].id,
+  concurrency: 2,
+  requestsPerMinute: 10,
+  fileNamePattern: DEFAULT_FILENAME_PATTERN,
+  variantCount: 1,
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  budget: { scope: 'run', maxImages: 0, maxCost: 0 },
+  postProcess: DEFAULT_POST_PROCESS,
+  density: DEFAULT_PROMPT_DENSITY,
+  inputMode: 'script',
+  batch: DEFAULT_BATCH_SETTINGS,
+  storyboard: DEFAULT_STORYBOARD,
+  timeline: DEFAULT_TIMELINE,
+};
+
+export function createEmptyProject(name: string): Project {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    jobCount: 0,
+    script: '',
+    settings: { ...DEFAULT_PROJECT_SETTINGS },
+    jobs: [],
+    referenceImage: null,
+    characters: [],
+    usage: [],
+  };
+}
@@ -0,0 +1,120 @@
+import type { AspectRatio, CharacterNote, ScenePrompt } from "../types.ts";
+import { createSegmentLocator } from "./scriptImport.ts";
+
+const RATIO_HINTS: Record<AspectRatio, string> = {
+  '1:1': '',
+  '9:16': ', vertical 9:16 aspect ratio',
+  '16:9': ', horizontal 16:9 aspect ratio',
+};
+
+// Appends the style keywords, character descriptions, for models that cannot set the
+// aspect ratio natively a ratio hint, and for models without a negative prompt the things to avoid.
+export function buildFullPrompt(
+  prompt: string,
+  styleKeywords: string,
+  aspectRatio: AspectRatio,
+  includeRatioHint: boolean,
+  characters: CharacterNote[] = [],
+  negativePrompt = ''
+): string {
+  const stylePrompt = styleKeywords ? `, in the style of ${styleKeywords}` : '';
+  const ratioPrompt = includeRatioHint ? RATIO_HINTS[aspectRatio] : '';
+  const characterPrompt = characters.length > 0
+    ? `. Characters: ${characters.map(c => c.description ? `${c.name} (${c.description})` : c.name).join('; ')}`
+    : '';
+  const avoidPrompt = negativePrompt.trim() ? `. Avoid: ${negativePrompt.trim()}` : '';
+  return `${prompt}${stylePrompt}${ratioPrompt}${characterPrompt}${avoidPrompt}`;
+}
+
+export const PROMPT_GENERATION_SYSTEM_INSTRUCTION = `You are an expert script analyst and creative director. Your job is to read a script, break it down into key visual moments, and generate concise, detailed prompts for a text-to-image AI. Each prompt should describe a single, clear scene. Ensure the prompts are diverse and capture the essence of the script. Return the output as a JSON array of scene objects in script order. For each scene give its number, the exact passage of the script it illustrates copied verbatim as sourceExcerpt, the setting or location, the names of the characters present, the shot type (for example wide shot, close-up, over-the-shoulder) and the visual prompt. The script may be a screenplay with scene headings, character cues and dialogue, or subtitles with one timestamped cue per paragraph; illustrate what happens and keep sourceExcerpt inside a single scene. The text may be one part of a longer script that starts or ends mid-scene; only illustrate what it contains.`;
+
+// The system instruction, plus the number of scenes to return when the user set a density.
+export const buildPromptGenerationInstruction = (targetCount?: number): string =>
+  targetCount
+    ? `${PROMPT_GENERATION_SYSTEM_INSTRUCTION} Return exactly ${targetCount} ${targetCount === 1 ? 'scene' : 'scenes'}, spread evenly across the text.`
+    : PROMPT_GENERATION_SYSTEM_INSTRUCTION;
+
+// For multimodal models that receive the image (and the mask as a second image) alongside this text.
+export function buildEditPrompt(instruction: string, aspectRatio: AspectRatio, masked: boolean): string {
+  const scope = masked
+    ? ' The second image is a mask: change only the area that is white in the mask and keep the black area exactly as it is.'
+    : ' Keep the composition, characters, lighting and style unless the instruction changes them.';
+  return `Edit the first image: ${instruction.trim()}.${scope} Return the whole image at the same size${RATIO_HINTS[aspectRatio]}.`;
+}
+
+export const SAFE_REWRITE_INSTRUCTION = `An image generation model's safety filter rejected the following prompt. Rewrite it so it keeps the same scene, composition and mood but avoids graphic violence, gore, sexual content, real public figures and anything else likely to be blocked. Reply with the rewritten prompt only, without quotes or commentary.`;
+
+// Models sometimes wrap the answer in quotes or a "Prompt:" label despite being asked not to.
+export const cleanRewrittenPrompt = (text: string): string =>
+  text.trim().replace(/^(?:rewritten )?prompt:\s*/i, '').replace(/^["'“]+|["'”]+$/g, '').trim();
+
+// Lowercased one character at a time, the same way the script is below.
+const normalizeForSearch = (value: string) => Array.from(value, char => char.toLowerCase()).join('').replace(/\s+/g, ' ');
+
+// Finds where a model-quoted excerpt sits in the script. Models tend to reflow whitespace or
+// change case, so the fallback search compares a normalized copy and maps the hit back.
+export function locateExcerpt(script: string, excerpt: string, fromIndex = 0): { start: number; end: number } | null {
+  const trimmed = excerpt.trim();
+  if (!trimmed) return null;
+  const exact = script.indexOf(trimmed, fromIndex);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  // Lowercasing can change the length ("İ" becomes two code units), so every code unit of the
+  // normalized copy records the start and end of the script character it came from.
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let normalized = '';
+  for (let i = 0; i < script.length;) {
+    const char = String.fromCodePoint(script.codePointAt(i)!);
+    const next = i + char.length;
+    const isSpace = /\s/.test(char);
+    if (!isSpace || !normalized.endsWith(' ')) {
+      const folded = isSpace ? ' ' : char.toLowerCase();
+      for (let k = 0; k < folded.length; k++) {
+        starts.push(i);
+        ends.push(next);
+      }
+      normalized += folded;
+    }
+    i = next;
+  }
+  const needle = normalizeForSearch(trimmed);
+  const startAt = starts.findIndex(offset => offset >= fromIndex);
+  const hit = normalized.indexOf(needle, startAt === -1 ? normalized.length : startAt);
+  if (hit === -1) return null;
+  return { start: starts[hit], end: ends[hit + needle.length - 1] };
+}
+
+const asString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+export function parseScenePrompts(raw: unknown, script: string): ScenePrompt[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("AI did not return a valid array of scenes.");
+  }
+  let searchFrom = 0;
+  const locateSegment = createSegmentLocator(script);
+  const scenes: ScenePrompt[] = [];
+  raw.forEach(item => {
+    // Older responses and simple providers may still return bare prompt strings.
+    const entry = typeof item === 'string' ? { prompt: item } : item;
+    const prompt = asString(entry?.prompt);
+    if (!prompt) return;
+    const sourceExcerpt = asString(entry.sourceExcerpt);
+    const location = locateExcerpt(script, sourceExcerpt, searchFrom) ?? locateExcerpt(script, sourceExcerpt);
+    if (location) searchFrom = location.start;
+    scenes.push({
+      prompt,
+      scene: {
+        sceneNumber: Number.isFinite(entry.sceneNumber) ? entry.sceneNumber : scenes.length + 1,
+        sourceExcerpt,
+        sourceStart: location?.start,
+        sourceEnd: location?.end,
+        setting: asString(entry.setting),
+        characters: Array.isArray(entry.characters) ? entry.characters.map(asString).filter(Boolean) : [],
+        shotType: asString(entry.shotType),
+        ...(location ? locateSegment(location.start, location.end) : {}),
+      },
+    });
+  });
+  return scenes;
+}
@@ -0,0 +1,117 @@
+import type { ImageEditRequest, ImageGenerationRequest, ImageProvider, PromptProvider, ProviderModel, RetryPolicy } from "../types.ts";
+import { withMeteredRetry, type UsageMeter } from "./usageLedger.ts";
+import { geminiImageProvider, geminiPromptProvider } from "./geminiService.ts";
+import { openAiImageProvider, openAiPromptProvider } from "./openAiService.ts";
+import { stableDiffusionImageProvider } from "./stableDiffusionService.ts";
+import { mockImageProvider, mockPromptProvider } from "./mockService.ts";
+
+const imageProviders = new Map<string, ImageProvider>();
+const promptProviders = new Map<string, PromptProvider>();
+
+export function registerImageProvider(provider: ImageProvider) {
+  imageProviders.set(provider.id, provider);
+}
+
+export function registerPromptProvider(provider: PromptProvider) {
+  promptProviders.set(provider.id, provider);
+}
+
+[geminiImageProvider, openAiImageProvider, stableDiffusionImageProvider, mockImageProvider].forEach(registerImageProvider);
+[geminiPromptProvider, openAiPromptProvider, mockPromptProvider].forEach(registerPromptProvider);
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+export const listImageProviders = (): ImageProvider[] => Array.from(imageProviders.values());
+export const listPromptProviders = (): PromptProvider[] => Array.from(promptProviders.values());
+
+export function getImageProvider(id: string): ImageProvider {
+  const provider = imageProviders.get(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  return provider;
+}
+
+export function getPromptProvider(id: string): PromptProvider {
+  const provider = promptProviders.get(id);
+  if (!provider) {
+    throw new Error(`Unknown prompt provider "${id}".`);
+  }
+  return provider;
+}
+
+// Falls back to the provider's first reference-capable model when a reference image is attached
+// but the selected model cannot take one, mirroring how Gemini switches from Imagen to Flash Image.
+export function resolveImageModel(provider: ImageProvider, modelId: string, hasReference: boolean): ProviderModel {
+  const selected = provider.models.find(m => m.id === modelId) ?? provider.models[0];
+  if (hasReference && !selected.capabilities.referenceImages) {
+    return provider.models.find(m => m.capabilities.referenceImages) ?? selected;
+  }
+  return selected;
+}
+
+// The selected model when it can edit, otherwise the provider's first model that can.
+export function resolveEditModel(provider: ImageProvider, modelId: string): ProviderModel | undefined {
+  if (!provider.editImage) return undefined;
+  const selected = provider.models.find(m => m.id === modelId);
+  return selected?.capabilities.editing ? selected : provider.models.find(m => m.capabilities.editing);
+}
+
+// One edit, retried under the policy and recorded in the ledger like an image generation.
+export function editImage(
+  provider: ImageProvider,
+  model: ProviderModel,
+  request: Omit<ImageEditRequest, 'model' | 'onUsage'>,
+  retryPolicy: RetryPolicy,
+  meter?: UsageMeter
+): Promise<string> {
+  if (!provider.editImage || !model.capabilities.editing) {
+    return Promise.reject(new Error(`${provider.label} cannot edit images with ${model.label}.`));
+  }
+  const edit = provider.editImage.bind(provider);
+  return withMeteredRetry(
+    (onUsage) => edit({ ...request, model: model.id, onUsage }),
+    retryPolicy,
+    { kind: 'edit', providerId: provider.id, model: model.id },
+    {
+      meter,
+      signal: request.signal,
+      countImages: () => 1,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(`Attempt ${attempt} failed for edit "${request.instruction}". Retrying in ${(delayMs / 1000).toFixed(1)}s... Error: ${error.message}`),
+    }
+  );
+}
+
+// Models cap how many candidates one call returns, so larger counts take several calls.
+// Each call is retried on its own under the given policy and gets its own ledger entry.
+export async function generateVariants(
+  provider: ImageProvider,
+  model: ProviderModel,
+  request: Omit<ImageGenerationRequest, 'variants' | 'model' | 'onUsage'>,
+  count: number,
+  retryPolicy: RetryPolicy,
+  meter?: UsageMeter
+): Promise<string[]> {
+  const images: string[] = [];
+  while (images.length < count) {
+    const variants = Math.min(Math.max(1, model.capabilities.maxVariants), count - images.length);
+    const batch = await withMeteredRetry(
+      (onUsage) => provider.generateImage({ ...request, model: model.id, variants, onUsage }),
+      retryPolicy,
+      { kind: 'image', providerId: provider.id, model: model.id },
+      {
+        meter,
+        signal: request.signal,
+        countImages: (result) => result.length,
+        onRetry: (error, attempt, delayMs) =>
+          console.warn(`Attempt ${attempt} failed for prompt "${request.prompt}". Retrying in ${(delayMs / 1000).toFixed(1)}s... Error: ${error.message}`),
+      }
+    );
+    if (batch.length === 0) {
+      throw new Error(`Failed for prompt "${request.prompt}": the provider returned no images.`);
+    }
+    images.push(...batch);
+  }
+  return images.slice(0, count);
+}
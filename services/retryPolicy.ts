@@ -0,0 +1,46 @@
+import type { RetryPolicy } from "../types.ts";
+import { isAbortError, sleep } from "./abortUtils.ts";
+import { classifyError, RETRYABLE_CATEGORIES, type GenerationError } from "./generationErrors.ts";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  jitter: 0.3,
+};
+
+// Delay before retry number `attempt` (1-based), or null when the error should not be retried.
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: GenerationError,
+  random: () => number = Math.random
+): number | null {
+  if (attempt > policy.maxRetries || !RETRYABLE_CATEGORIES.includes(error.category)) return null;
+  if (error.retryAfterMs !== undefined) {
+    if (error.retryAfterMs > policy.maxDelayMs) return null;
+    // Never earlier than the server asked for; jitter only adds.
+    return Math.round(error.retryAfterMs * (1 + policy.jitter * random()));
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(backoff * (1 - policy.jitter + 2 * policy.jitter * random()));
+}
+
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { signal?: AbortSignal; onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (caught) {
+      if (options.signal?.aborted || isAbortError(caught)) throw caught;
+      const error = classifyError(caught);
+      const delay = getRetryDelay(policy, attempt, error);
+      if (delay === null) throw error;
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
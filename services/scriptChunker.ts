@@ -0,0 +1,268 @@
+import type { PromptDensity, ScenePrompt } from "../types.ts";
+import { isAbortError } from "./abortUtils.ts";
+import { locateExcerpt } from "./promptBuilder.ts";
+import { createSegmentLocator, type ScriptHeading } from "./scriptImport.ts";
+
+// Splits scripts that are too long for one prompt-generation call into overlapping chunks,
+// spreads the requested number of scenes across them and merges the results back into one
+// list in script order.
+
+export const DEFAULT_PROMPT_DENSITY: PromptDensity = {
+  mode: 'auto',
+  count: 20,
+  wordsPerImage: 60,
+  secondsPerImage: 8,
+  wordsPerMinute: 150,
+};
+
+// Upper bound for one generation request; denser settings are clamped.
+export const MAX_TARGET_PROMPTS = 500;
+
+export interface ChunkOptions {
+  maxChars: number;
+  // Text repeated from the end of the previous chunk so scenes that straddle the boundary keep their context.
+  overlapChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { maxChars: 15000, overlapChars: 1000 };
+
+export interface ScriptChunk {
+  // Offsets in the full script. Text before ownStart repeats the previous chunk.
+  start: number;
+  ownStart: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+export const countWords = (text: string): number => text.match(/\S+/g)?.length ?? 0;
+
+// Number of prompts the density asks for, or undefined to let the model decide.
+export function targetPromptCount(script: string, density: PromptDensity): number | undefined {
+  const words = countWords(script);
+  if (words === 0) return undefined;
+  let count: number;
+  switch (density.mode) {
+    case 'count':
+      count = density.count;
+      break;
+    case 'words':
+      count = words / Math.max(1, density.wordsPerImage);
+      break;
+    case 'seconds':
+      count = (words / Math.max(1, density.wordsPerMinute)) * 60 / Math.max(1, density.secondsPerImage);
+      break;
+    default:
+      return undefined;
+  }
+  return Math.min(MAX_TARGET_PROMPTS, Math.max(1, Math.ceil(count)));
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Paragraphs, then sentences, then whitespace-aligned slices for anything still too long.
+function splitUnits(script: string, maxChars: number): Span[] {
+  const units: Span[] = [];
+  const pushSlices = (start: number, end: number) => {
+    while (end - start > maxChars) {
+      const window = script.slice(start, start + maxChars);
+      const space = window.search(/\s\S*$/);
+      const cut = space > maxChars / 2 ? start + space + 1 : start + maxChars;
+      units.push({ start, end: cut });
+      start = cut;
+    }
+    if (end > start) units.push({ start, end });
+  };
+  const splitParagraph = (start: number, end: number) => {
+    if (end - start <= maxChars) {
+      units.push({ start, end });
+      return;
+    }
+    const sentence = /[.!?]["')\]]*\s+/g;
+    sentence.lastIndex = start;
+    let from = start;
+    let match: RegExpExecArray | null;
+    while ((match = sentence.exec(script)) && match.index < end) {
+      pushSlices(from, match.index + match[0].length);
+      from = match.index + match[0].length;
+    }
+    pushSlices(from, end);
+  };
+
+  const paragraph = /\n\s*\n/g;
+  let from = 0;
+  let match: RegExpExecArray | null;
+  while ((match = paragraph.exec(script))) {
+    splitParagraph(from, match.index + match[0].length);
+    from = match.index + match[0].length;
+  }
+  splitParagraph(from, script.length);
+  return units;
+}
+
+export function chunkScript(script: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): ScriptChunk[] {
+  if (script.length <= options.maxChars) {
+    return [{ start: 0, ownStart: 0, end: script.length, text: script }];
+  }
+  // Room for the overlap is kept so every chunk stays under maxChars.
+  const budget = Math.max(1, options.maxChars - options.overlapChars);
+  const units = splitUnits(script, budget);
+  const chunks: ScriptChunk[] = [];
+  let first = 0;
+  while (first < units.length) {
+    let last = first;
+    while (last + 1 < units.length && units[last + 1].end - units[first].start <= budget) last++;
+    const ownStart = units[first].start;
+    const end = units[last].end;
+    // Whole units from the previous chunk that fit in the overlap.
+    let start = ownStart;
+    for (let i = first - 1; i >= 0 && ownStart - units[i].start <= options.overlapChars; i--) start = units[i].start;
+    chunks.push({ start, ownStart, end, text: script.slice(start, end) });
+    first = last + 1;
+  }
+  return chunks;
+}
+
+// Splits a total across chunks by how many new words each adds, using largest remainders so the
+// parts add up exactly.
+export function distributeTarget(script: string, chunks: ScriptChunk[], total: number): number[] {
+  const weights = chunks.map(chunk => countWords(script.slice(chunk.ownStart, chunk.end)));
+  const sum = weights.reduce((a, b) => a + b, 0) || 1;
+  const exact = weights.map(weight => (weight / sum) * total);
+  const parts = exact.map(Math.floor);
+  let left = total - parts.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (left-- > 0) parts[index]++;
+    });
+  return parts;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const wordSet = (text: string) => new Set(normalizeText(text).split(' ').filter(Boolean));
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+const rangesOverlap = (a: ScenePrompt, b: ScenePrompt) =>
+  a.scene.sourceStart !== undefined && b.scene.sourceStart !== undefined
+  && a.scene.sourceStart < (b.scene.sourceEnd ?? b.scene.sourceStart) && b.scene.sourceStart < (a.scene.sourceEnd ?? a.scene.sourceStart);
+
+// The same moment illustrated by two chunks, which happens where they overlap.
+function isDuplicate(a: ScenePrompt, b: ScenePrompt): boolean {
+  if (rangesOverlap(a, b)) return true;
+  const excerpt = normalizeText(a.scene.sourceExcerpt);
+  if (excerpt && excerpt === normalizeText(b.scene.sourceExcerpt)) return true;
+  return similarity(wordSet(a.prompt), wordSet(b.prompt)) > 0.8;
+}
+
+// Keeps `count` items spread evenly over the list.
+const thinEvenly = <T>(items: T[], count: number): T[] =>
+  items.length <= count ? items : Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]);
+
+// Moves chunk-relative offsets into the full script and re-reads the heading and cue times there,
+// since a chunk can start below the scene heading it belongs to.
+function placeInScript(script: string, chunk: ScriptChunk, scenes: ScenePrompt[], locateSegment: ReturnType<typeof createSegmentLocator>): ScenePrompt[] {
+  return scenes.map(({ prompt, scene }) => {
+    let location = scene.sourceStart !== undefined
+      ? { start: scene.sourceStart + chunk.start, end: (scene.sourceEnd ?? scene.sourceStart) + chunk.start }
+      : locateExcerpt(script, scene.sourceExcerpt, chunk.start);
+    if (location && location.start >= chunk.end) location = null;
+    return {
+      prompt,
+      scene: {
+        ...scene,
+        sourceStart: location?.start,
+        sourceEnd: location?.end,
+        sourceHeading: undefined,
+        timeRange: undefined,
+        ...(location ? locateSegment(location.start, location.end) : {}),
+      },
+    };
+  });
+}
+
+export function mergeChunkResults(
+  script: string,
+  chunks: ScriptChunk[],
+  results: ScenePrompt[][],
+  targetCount?: number,
+  headings?: ScriptHeading[]
+): ScenePrompt[] {
+  const locateSegment = createSegmentLocator(script, headings);
+  // Unlocated scenes sort after the scene before them from the same chunk.
+  const placed: { entry: ScenePrompt; chunk: number; order: number }[] = [];
+  results.forEach((scenes, chunk) => {
+    let order = chunks[chunk].start;
+    placeInScript(script, chunks[chunk], scenes, locateSegment).forEach(entry => {
+      order = entry.scene.sourceStart ?? order;
+      placed.push({ entry, chunk, order });
+    });
+  });
+
+  // Scenes within one chunk are never merged: the model may show one passage from two angles.
+  const kept: { entry: ScenePrompt; chunk: number }[] = [];
+  placed
+    .map((item, index) => ({ ...item, index }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .forEach(item => {
+      if (!kept.some(other => other.chunk !== item.chunk && isDuplicate(other.entry, item.entry))) kept.push(item);
+    });
+
+  const scenes = kept.map(item => item.entry);
+  return renumber(targetCount ? thinEvenly(scenes, targetCount) : scenes);
+}
+
+const renumber = (scenes: ScenePrompt[]): ScenePrompt[] =>
+  scenes.map(({ prompt, scene }, index) => ({ prompt, scene: { ...scene, sceneNumber: index + 1 } }));
+
+// Runs one generation call per chunk, in order, and merges the scenes.
+export async function generateChunkedPrompts(
+  script: string,
+  density: PromptDensity,
+  generate: (text: string, targetCount: number | undefined, chunkIndex: number) => Promise<ScenePrompt[]>,
+  onProgress?: (progress: ChunkProgress) => void,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+  // Scene headings from an imported screenplay, for the scenes' source headings.
+  headings?: ScriptHeading[]
+): Promise<ScenePrompt[]> {
+  const targetCount = targetPromptCount(script, density);
+  const chunks = chunkScript(script, options);
+  if (chunks.length === 1) {
+    onProgress?.({ completed: 0, total: 1 });
+    const generated = await generate(script, targetCount, 0);
+    onProgress?.({ completed: 1, total: 1 });
+    const scenes = headings ? placeInScript(script, chunks[0], generated, createSegmentLocator(script, headings)) : generated;
+    return targetCount && scenes.length > targetCount ? renumber(thinEvenly(scenes, targetCount)) : scenes;
+  }
+
+  const targets = targetCount ? distributeTarget(script, chunks, targetCount) : [];
+  const results: ScenePrompt[][] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.({ completed: i, total: chunks.length });
+    // A chunk whose share rounds to nothing still gets one scene; thinning evens it out after.
+    const chunkTarget = targetCount ? Math.max(1, targets[i]) : undefined;
+    try {
+      results.push(await generate(chunks[i].text, chunkTarget, i));
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      throw new Error(`Chunk ${i + 1} of ${chunks.length} failed: ${error?.message ?? error}`);
+    }
+  }
+  onProgress?.({ completed: chunks.length, total: chunks.length });
+  return mergeChunkResults(script, chunks, results, targetCount, headings);
+}
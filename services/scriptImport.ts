@@ -0,0 +1,291 @@
+import type { SceneMetadata } from "../types.ts";
+
+// Client-side parsers for screenplay and subtitle files. Each format is rendered back to plain
+// text that keeps its structure (headings, cues, dialogue, timestamps), so the prompt providers
+// and the script highlighter keep working on a single string.
+
+export type ScriptFormat = 'fountain' | 'fdx' | 'srt' | 'vtt' | 'text';
+
+export type ScreenplayElementType = 'heading' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition';
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+}
+
+export interface SubtitleCue {
+  // Seconds from the start of the media.
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A scene heading found by a screenplay parser, at its offset in the rendered script.
+export interface ScriptHeading {
+  start: number;
+  heading: string;
+}
+
+export interface ImportedScript {
+  format: ScriptFormat;
+  script: string;
+  // Scenes for screenplays, cues for subtitles.
+  segmentCount: number;
+  // Screenplays only. Forced and non-INT/EXT headings are known here but not in the plain text.
+  headings?: ScriptHeading[];
+}
+
+export const SCRIPT_IMPORT_ACCEPT = '.fountain,.spmd,.fdx,.srt,.vtt,.txt,.md';
+
+const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const CUE_LINE = /^\[(\d+:\d{2}:\d{2}[.,]\d{3}) --> (\d+:\d{2}:\d{2}[.,]\d{3})\]/;
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const normalizeNewlines = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&(lt|gt|quot|apos|nbsp|amp);/g, (_, name) =>
+      ({ lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', amp: '&' }[name as string]!));
+
+// --- Screenplays ---
+
+const isUpperCaseLine = (line: string) => /[A-Z]/.test(line) && line === line.toUpperCase();
+
+const stripEmphasis = (text: string) => text.replace(/(\*{1,3}|_)(?=\S)(.+?)(?<=\S)\1/g, '$2');
+
+export function parseFountain(source: string): ScreenplayElement[] {
+  let text = normalizeNewlines(source)
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+
+  // A title page is a run of "Key: value" lines at the very top.
+  if (/^[A-Za-z][A-Za-z ]*:/.test(text)) {
+    const end = text.search(/\n\s*\n/);
+    text = end === -1 ? '' : text.slice(end);
+  }
+
+  const elements: ScreenplayElement[] = [];
+  text.split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return;
+    const [first, ...rest] = lines;
+
+    if (/^(#|=)/.test(first)) return;
+    if (/^\.[^.]/.test(first) || SCENE_HEADING.test(first)) {
+      const heading = first.replace(/^\./, '').replace(/\s*#[^#]+#$/, '');
+      elements.push({ type: 'heading', text: heading.toUpperCase() });
+      if (rest.length > 0) elements.push({ type: 'action', text: stripEmphasis(rest.join('\n')) });
+      return;
+    }
+    if (lines.length === 1 && (/^>(?!.*<$)/.test(first) || (isUpperCaseLine(first) && /TO:$/.test(first)))) {
+      elements.push({ type: 'transition', text: first.replace(/^>\s*/, '') });
+      return;
+    }
+    if (rest.length > 0 && !first.startsWith('!') && (first.startsWith('@') || isUpperCaseLine(first.replace(/\(.*\)/, '')))) {
+      elements.push({ type: 'character', text: first.replace(/^@/, '').replace(/\s*\^$/, '') });
+      rest.forEach(line => {
+        const isParenthetical = line.startsWith('(') && line.endsWith(')');
+        elements.push({ type: isParenthetical ? 'parenthetical' : 'dialogue', text: stripEmphasis(line) });
+      });
+      return;
+    }
+    const action = lines.map(line => line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1')).join('\n');
+    elements.push({ type: 'action', text: stripEmphasis(action) });
+  });
+  return elements;
+}
+
+const FDX_TYPES: Record<string, ScreenplayElementType> = {
+  'Scene Heading': 'heading',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Parenthetical': 'parenthetical',
+  'Dialogue': 'dialogue',
+  'Transition': 'transition',
+};
+
+export function parseFdx(source: string): ScreenplayElement[] {
+  const content = source.match(/<Content\b[^>]*>([\s\S]*?)<\/Content>/);
+  if (!/<FinalDraft\b/.test(source) || !content) {
+    throw new Error("This does not look like a Final Draft (.fdx) file.");
+  }
+  // Paragraphs can nest (dual dialogue), so each one's text runs up to the next paragraph tag.
+  const body = content[1];
+  const tags = [...body.matchAll(/<Paragraph\b([^>]*)>|<\/Paragraph>/g)];
+  const elements: ScreenplayElement[] = [];
+  tags.forEach((tag, i) => {
+    const type = tag[1]?.match(/\bType="([^"]*)"/)?.[1];
+    if (!type) return;
+    const start = tag.index! + tag[0].length;
+    const slice = body.slice(start, i + 1 < tags.length ? tags[i + 1].index : body.length);
+    const text = [...slice.matchAll(/<Text\b[^>]*>([\s\S]*?)<\/Text>/g)]
+      .map(match => decodeEntities(match[1]))
+      .join('')
+      .trim();
+    if (text) elements.push({ type: FDX_TYPES[type] ?? 'action', text });
+  });
+  return elements;
+}
+
+// Dialogue stays attached to its character cue; everything else gets its own paragraph.
+function layoutScreenplay(elements: ScreenplayElement[]): { script: string; headings: ScriptHeading[] } {
+  const blocks: string[] = [];
+  const headings: ScriptHeading[] = [];
+  let length = 0;
+  elements.forEach((element, i) => {
+    const previous = elements[i - 1]?.type;
+    const continuesSpeech = (element.type === 'dialogue' || element.type === 'parenthetical')
+      && (previous === 'character' || previous === 'dialogue' || previous === 'parenthetical');
+    const text = element.type === 'heading' || element.type === 'character' ? element.text.toUpperCase() : element.text;
+    if (continuesSpeech && blocks.length > 0) {
+      blocks[blocks.length - 1] += `\n${text}`;
+      length += text.length + 1;
+      return;
+    }
+    if (blocks.length > 0) length += 2;
+    if (element.type === 'heading') headings.push({ start: length, heading: text });
+    blocks.push(text);
+    length += text.length;
+  });
+  return { script: blocks.join('\n\n'), headings };
+}
+
+export const renderScreenplay = (elements: ScreenplayElement[]): string => layoutScreenplay(elements).script;
+
+// --- Subtitles ---
+
+export function parseTimestamp(value: string): number | null {
+  const match = value.match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+export function formatTimestamp(totalSeconds: number): string {
+  const ms = Math.max(0, Math.round(totalSeconds * 1000));
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+const cleanCueText = (text: string) =>
+  decodeEntities(
+    text
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, '$1: ')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/\s+/g, ' ').trim();
+
+// Handles both SRT (numbered blocks, comma decimals) and WebVTT (header, optional cue ids,
+// cue settings, NOTE/STYLE/REGION blocks).
+export function parseSubtitles(source: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  normalizeNewlines(source).split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) return;
+    const [from, to] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (start === null || end === null || !text) return;
+    cues.push({ start, end, text });
+  });
+  if (cues.length === 0) {
+    throw new Error("No subtitle cues were found in this file.");
+  }
+  return cues;
+}
+
+export const renderSubtitles = (cues: SubtitleCue[]): string =>
+  cues.map(cue => `[${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}] ${cue.text}`).join('\n\n');
+
+// Drops the "[start --> end]" prefixes of rendered cues, leaving the spoken text.
+export const stripCueTimings = (text: string): string =>
+  text.split('\n').map(line => line.trim().replace(CUE_LINE, '').trim()).filter(Boolean).join(' ');
+
+// --- Import ---
+
+export function detectScriptFormat(fileName: string, text: string): ScriptFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'fountain' || extension === 'spmd') return 'fountain';
+  if (extension === 'fdx') return 'fdx';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+  const head = normalizeNewlines(text).trimStart().slice(0, 500);
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/<FinalDraft\b/.test(head)) return 'fdx';
+  if (/^(\d+\n)?[\d:,.]+\s*-->\s*[\d:,.]+/.test(head)) return 'srt';
+  return 'text';
+}
+
+export function importScript(fileName: string, text: string): ImportedScript {
+  const format = detectScriptFormat(fileName, text);
+  switch (format) {
+    case 'fountain':
+    case 'fdx': {
+      const elements = format === 'fdx' ? parseFdx(text) : parseFountain(text);
+      if (elements.length === 0) {
+        throw new Error(`${fileName} does not contain any screenplay text.`);
+      }
+      const { script, headings } = layoutScreenplay(elements);
+      return { format, script, segmentCount: Math.max(headings.length, 1), headings };
+    }
+    case 'srt':
+    case 'vtt': {
+      const cues = parseSubtitles(text);
+      return { format, script: renderSubtitles(cues), segmentCount: cues.length };
+    }
+    default:
+      return { format, script: normalizeNewlines(text).trim(), segmentCount: 1 };
+  }
+}
+
+// --- Locating scenes ---
+
+interface ScriptSegment {
+  start: number;
+  heading?: string;
+  timeRange?: { start: number; end: number };
+}
+
+// Scene headings and timestamped cue lines in a (rendered or pasted) script, in order.
+function findScriptSegments(script: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  let offset = 0;
+  script.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    const cue = trimmed.match(CUE_LINE);
+    if (cue) {
+      segments.push({ start: offset, timeRange: { start: parseTimestamp(cue[1])!, end: parseTimestamp(cue[2])! } });
+    } else if (SCENE_HEADING.test(trimmed)) {
+      segments.push({ start: offset, heading: trimmed });
+    }
+    offset += line.length + 1;
+  });
+  return segments;
+}
+
+const lastAtOrBefore = <T extends ScriptSegment>(segments: T[], offset: number): T | undefined =>
+  segments.filter(segment => segment.start <= offset).pop();
+
+// The heading a passage sits under, and the time span of the cues it covers. Headings from the
+// screenplay parser, when given, replace the INT/EXT guess made on the text.
+export function createSegmentLocator(script: string, knownHeadings?: ScriptHeading[]) {
+  const segments = findScriptSegments(script);
+  const headings: ScriptSegment[] = knownHeadings ?? segments.filter(segment => segment.heading);
+  const cues = segments.filter(segment => segment.timeRange);
+  return (start: number, end: number): Pick<SceneMetadata, 'sourceHeading' | 'timeRange'> => {
+    const first = lastAtOrBefore(cues, start);
+    const last = lastAtOrBefore(cues, Math.max(start, end - 1));
+    return {
+      sourceHeading: lastAtOrBefore(headings, start)?.heading,
+      timeRange: first && last ? { start: first.timeRange!.start, end: last.timeRange!.end } : undefined,
+    };
+  };
+}
@@ -0,0 +1,160 @@
+import type { AspectRatio } from "../types.ts";
+import { createAbortError, throwIfAborted } from "./abortUtils.ts";
+import { targetDimensions } from "./postProcess.ts";
+
+// Slideshow preview in the browser: each image drawn on a canvas for its share of the timeline,
+// optionally with a slow Ken Burns pan and zoom, and recorded to WebM as it plays. Recording runs
+// in real time, so a two-minute timeline takes two minutes.
+
+export interface Slide {
+  src: string;
+  frames: number;
+}
+
+export interface SlideshowOptions {
+  aspectRatio: AspectRatio;
+  frameRate: number;
+  kenBurns: boolean;
+}
+
+// Zoom, and the window's position within the room the zoom leaves (-1 to 1 on each axis).
+export interface KenBurnsMove {
+  fromScale: number;
+  toScale: number;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+// Long side of the preview video: enough to judge pacing without straining the encoder.
+const PREVIEW_EDGE = 1280;
+
+const ZOOM = 1.15;
+
+// Pan directions taken in turn, with zoom in and zoom out alternating, so neighbouring shots differ.
+const PANS = [
+  { from: { x: -1, y: 0 }, to: { x: 1, y: 0 } },
+  { from: { x: 0, y: 1 }, to: { x: 0, y: -1 } },
+  { from: { x: 1, y: 0 }, to: { x: -1, y: 0 } },
+  { from: { x: 0, y: -1 }, to: { x: 0, y: 1 } },
+];
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const previewSize = (aspectRatio: AspectRatio) => targetDimensions(aspectRatio, PREVIEW_EDGE);
+
+export function kenBurnsMove(index: number): KenBurnsMove {
+  const zoomIn = index % 2 === 0;
+  return { fromScale: zoomIn ? 1 : ZOOM, toScale: zoomIn ? ZOOM : 1, ...PANS[index % PANS.length] };
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Eases in and out, so the motion does not jerk at the cuts.
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Without a move the image is letterboxed; with one it fills the frame so the pan never shows an edge.
+export function drawSlide(
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  move: KenBurnsMove | null,
+  progress: number
+): void {
+  const { width, height } = context.canvas;
+  const t = smooth(Math.min(1, Math.max(0, progress)));
+  const fit = move ? Math.max(width / image.naturalWidth, height / image.naturalHeight) : Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const scale = fit * (move ? lerp(move.fromScale, move.toScale, t) : 1);
+  const w = image.naturalWidth * scale;
+  const h = image.naturalHeight * scale;
+  const x = move ? lerp(move.from.x, move.to.x, t) : 0;
+  const y = move ? lerp(move.from.y, move.to.y, t) : 0;
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, (width - w) / 2 + (x * (w - width)) / 2, (height - h) / 2 + (y * (h - height)) / 2, w, h);
+}
+
+async function loadImage(src: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = src;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error("An image could not be decoded for the slideshow.");
+  }
+  return image;
+}
+
+// Plays the slides on the canvas while recording it. `onProgress` gets the seconds played so far.
+export async function recordSlideshow(
+  canvas: HTMLCanvasElement,
+  slides: Slide[],
+  options: SlideshowOptions,
+  signal: AbortSignal,
+  onProgress: (seconds: number) => void
+): Promise<Blob> {
+  if (slides.length === 0) throw new Error("There are no images to show.");
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot record WebM video.");
+  const images: HTMLImageElement[] = [];
+  for (const slide of slides) {
+    images.push(await loadImage(slide.src));
+    throwIfAborted(signal);
+  }
+
+  const { width, height } = previewSize(options.aspectRatio);
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("This browser cannot draw the slideshow (no 2D canvas).");
+  const ends: number[] = [];
+  slides.forEach((slide, i) => ends.push((ends[i - 1] ?? 0) + slide.frames));
+  const totalFrames = ends[ends.length - 1];
+  const draw = (frame: number) => {
+    const i = Math.max(0, ends.findIndex(end => frame < end));
+    const start = i === 0 ? 0 : ends[i - 1];
+    drawSlide(context, images[i], options.kenBurns ? kenBurnsMove(i) : null, (frame - start) / slides[i].frames);
+  };
+  draw(0);
+
+  const stream = canvas.captureStream(options.frameRate);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  return new Promise<Blob>((resolve, reject) => {
+    let request = 0;
+    let startedAt: number | null = null;
+    const onAbort = () => {
+      cancelAnimationFrame(request);
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      signal.removeEventListener('abort', onAbort);
+      if (signal.aborted) reject(createAbortError());
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      onAbort();
+      reject(new Error("Recording the slideshow failed."));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const tick = (now: number) => {
+      startedAt ??= now;
+      const frame = Math.floor(((now - startedAt) / 1000) * options.frameRate);
+      if (frame >= totalFrames) {
+        draw(totalFrames - 1);
+        onProgress(totalFrames / options.frameRate);
+        recorder.stop();
+        return;
+      }
+      draw(frame);
+      onProgress(frame / options.frameRate);
+      request = requestAnimationFrame(tick);
+    };
+    recorder.start(1000);
+    request = requestAnimationFrame(tick);
+  });
+}
@@ -0,0 +1,104 @@
+import type { AspectRatio, ImageEditRequest, ImageGenerationRequest, ImageProvider } from "../types.ts";
+import { isAbortError } from "./abortUtils.ts";
+import { createGenerationError, createHttpError } from "./generationErrors.ts";
+import { buildFullPrompt } from "./promptBuilder.ts";
+
+// Talks to a local AUTOMATIC1111-style API (also served by Forge, SD.Next and ComfyUI's A1111 compatibility nodes).
+const getBaseUrl = () => {
+    const configured = typeof process !== 'undefined' && process.env ? process.env.SD_API_URL : undefined;
+    return (configured || 'http://127.0.0.1:7860').replace(/\/+$/, '');
+};
+
+const DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '9:16': { width: 768, height: 1344 },
+  '16:9': { width: 1344, height: 768 },
+};
+
+async function postToApi(endpoint: 'txt2img' | 'img2img', body: Record<string, unknown>, failure: string, signal?: AbortSignal): Promise<string[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${getBaseUrl()}/sdapi/v1/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw createGenerationError('network', `${failure}: could not reach the Stable Diffusion server at ${getBaseUrl()}.`, { cause: error });
+  }
+  if (!response.ok) {
+    throw createHttpError(response, `${response.status} ${response.statusText}`, failure);
+  }
+  const result = await response.json();
+  return result?.images ?? [];
+}
+
+const checkpointOverride = (model: string) => model !== 'current' ? { override_settings: { sd_model_checkpoint: model } } : {};
+
+export async function generateStableDiffusionImage(request: ImageGenerationRequest): Promise<string[]> {
+  const { prompt, styleKeywords, negativePrompt, referenceImages, characters, aspectRatio, model, variants, signal } = request;
+  const fullPrompt = buildFullPrompt(prompt, styleKeywords, aspectRatio, false, characters);
+  // img2img starts from a single image, so only the first reference can be used.
+  const referenceImage = referenceImages[0];
+  const body: Record<string, unknown> = {
+    prompt: fullPrompt,
+    // The web UI has a native negative prompt, which works better than asking in the prompt.
+    negative_prompt: negativePrompt?.trim() ?? '',
+    steps: 30,
+    batch_size: variants,
+    ...DIMENSIONS[aspectRatio],
+    ...checkpointOverride(model),
+  };
+  if (referenceImage) {
+    body.init_images = [referenceImage.base64];
+    body.denoising_strength = 0.6;
+  }
+
+  const images = (await postToApi(referenceImage ? 'img2img' : 'txt2img', body, `Failed for prompt "${prompt}"`, signal)).slice(0, variants);
+  if (images.length === 0) {
+    throw new Error(`Failed for prompt "${prompt}": No image data found in the response.`);
+  }
+  return images.map(b64 => `data:image/png;base64,${b64}`);
+}
+
+// img2img from the current image; with a mask it inpaints only the white area.
+export async function editStableDiffusionImage(request: ImageEditRequest): Promise<string> {
+  const { image, instruction, mask, aspectRatio, model, signal } = request;
+  const body: Record<string, unknown> = {
+    prompt: instruction,
+    init_images: [image.split(',')[1] ?? ''],
+    steps: 30,
+    denoising_strength: mask ? 0.75 : 0.5,
+    ...DIMENSIONS[aspectRatio],
+    ...checkpointOverride(model),
+  };
+  if (mask) {
+    body.mask = mask.split(',')[1] ?? '';
+    body.mask_blur = 4;
+    // Fill the masked area from the original pixels rather than noise.
+    body.inpainting_fill = 1;
+  }
+  const [edited] = await postToApi('img2img', body, `Edit "${instruction}" failed`, signal);
+  if (!edited) {
+    throw new Error(`Edit "${instruction}" failed: No image data found in the response.`);
+  }
+  return `data:image/png;base64,${edited}`;
+}
+
+export const stableDiffusionImageProvider: ImageProvider = {
+  id: 'stable-diffusion',
+  label: 'Local Stable Diffusion',
+  models: [
+    {
+      id: 'current',
+      label: 'Loaded checkpoint',
+      capabilities: { referenceImages: true, aspectRatios: ['1:1', '9:16', '16:9'], nativeAspectRatio: true, maxVariants: 4, editing: true },
+    },
+  ],
+  generateImage: generateStableDiffusionImage,
+  editImage: editStableDiffusionImage,
+};
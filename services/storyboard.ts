@@ -0,0 +1,263 @@
+import type { Project, StoryboardSettings } from "../types.ts";
+import { createPdfDocument, textWidth, wrapText } from "./pdfWriter.ts";
+import { formatTimestamp, stripCueTimings } from "./scriptImport.ts";
+
+// Storyboard documents: the successful jobs in order, a set number of panels per page, each with
+// its image, scene and prompt. The same pages are produced as a self-contained HTML file and as
+// a PDF built in the browser.
+
+export const DEFAULT_STORYBOARD: StoryboardSettings = {
+  panelsPerPage: 6,
+  pageSize: 'a4',
+  orientation: 'landscape',
+  includeExcerpt: true,
+};
+
+export const PANELS_PER_PAGE = [1, 2, 3, 4, 6, 9];
+
+// Portrait page sizes in millimetres.
+const PAGE_SIZES: Record<StoryboardSettings['pageSize'], { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Columns and rows on a landscape page; portrait pages swap them.
+const LANDSCAPE_GRIDS: Record<number, [number, number]> = { 1: [1, 1], 2: [2, 1], 3: [3, 1], 4: [2, 2], 6: [3, 2], 9: [3, 3] };
+
+// Longest side of the copies placed in the PDF, which keeps the file small enough to send.
+const PDF_IMAGE_EDGE = 1600;
+
+export interface StoryboardPanel {
+  // 1-based position in the job list, as in export file names.
+  index: number;
+  sceneNumber: number | null;
+  heading: string;
+  timeRange: string;
+  prompt: string;
+  excerpt: string;
+  src: string;
+}
+
+// A JPEG copy of a panel's image for the PDF.
+export interface StoryboardImage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export function storyboardPanels(project: Project): StoryboardPanel[] {
+  return project.jobs.flatMap((job, i) => {
+    if (job.status !== 'success' || !job.src) return [];
+    const range = job.scene?.timeRange;
+    return [{
+      index: i + 1,
+      sceneNumber: job.scene?.sceneNumber ?? null,
+      heading: job.scene?.sourceHeading ?? '',
+      // To the second; the milliseconds are noise on a storyboard.
+      timeRange: range ? `${formatTimestamp(range.start).slice(0, 8)}–${formatTimestamp(range.end).slice(0, 8)}` : '',
+      prompt: job.prompt,
+      excerpt: job.scene?.sourceExcerpt ? stripCueTimings(job.scene.sourceExcerpt) : '',
+      src: job.src,
+    }];
+  });
+}
+
+export function storyboardGrid(settings: StoryboardSettings): { columns: number; rows: number } {
+  const [columns, rows] = LANDSCAPE_GRIDS[settings.panelsPerPage] ?? LANDSCAPE_GRIDS[DEFAULT_STORYBOARD.panelsPerPage];
+  return settings.orientation === 'landscape' ? { columns, rows } : { columns: rows, rows: columns };
+}
+
+export function pageSize(settings: StoryboardSettings): { width: number; height: number } {
+  const { width, height } = PAGE_SIZES[settings.pageSize];
+  return settings.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+export function paginate<T>(items: T[], perPage: number): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += perPage) pages.push(items.slice(i, i + perPage));
+  return pages;
+}
+
+const panelLabel = (panel: StoryboardPanel): string =>
+  [`#${panel.index}`, panel.sceneNumber !== null && `Scene ${panel.sceneNumber}`, panel.timeRange].filter(Boolean).join(' · ');
+
+// Smaller type and fewer lines per panel as the rows get shorter.
+const textStyle = (rows: number) => ({
+  fontSize: rows === 1 ? 10 : rows === 2 ? 8.5 : 7.5,
+  promptLines: rows >= 3 ? 2 : 3,
+  excerptLines: rows >= 3 ? 2 : 3,
+});
+
+export const formatStoryboardDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// --- HTML ---
+
+export function buildStoryboardHtml(title: string, panels: StoryboardPanel[], settings: StoryboardSettings, date = new Date()): string {
+  const { columns, rows } = storyboardGrid(settings);
+  const page = pageSize(settings);
+  const style = textStyle(rows);
+  const pages = paginate(panels, settings.panelsPerPage);
+  const header = `<header><h1>${escapeHtml(title)}</h1><span>${escapeHtml(formatStoryboardDate(date))}</span></header>`;
+
+  const panelHtml = (panel: StoryboardPanel) => `
+      <figure class="panel">
+        <div class="frame"><img src="${escapeHtml(panel.src)}" alt="${escapeHtml(`Panel ${panel.index}`)}"></div>
+        <figcaption>
+          <p class="label">${escapeHtml(panelLabel(panel))}</p>${panel.heading ? `
+          <p class="heading">${escapeHtml(panel.heading)}</p>` : ''}
+          <p class="prompt">${escapeHtml(panel.prompt)}</p>${settings.includeExcerpt && panel.excerpt ? `
+          <blockquote class="excerpt">${escapeHtml(panel.excerpt)}</blockquote>` : ''}
+        </figcaption>
+      </figure>`;
+
+  const pageHtml = pages.map((items, i) => `
+  <section class="page">
+    ${header}
+    <div class="grid">${items.map(panelHtml).join('')}
+    </div>
+    <footer>Page ${i + 1} of ${pages.length}</footer>
+  </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} – Storyboard</title>
+<style>
+  @page { size: ${page.width}mm ${page.height}mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #d1d5db; font-family: Helvetica, Arial, sans-serif; color: #111827; }
+  .page { width: ${page.width}mm; height: ${page.height}mm; margin: 8mm auto; padding: 12mm; background: #fff; display: flex; flex-direction: column; overflow: hidden; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25); }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 0.5pt solid #9ca3af; padding-bottom: 2mm; margin-bottom: 4mm; }
+  h1 { font-size: 16pt; margin: 0; }
+  header span { font-size: 10pt; color: #4b5563; }
+  .grid { flex: 1; min-height: 0; display: grid; gap: 5mm; grid-template-columns: repeat(${columns}, minmax(0, 1fr)); grid-template-rows: repeat(${rows}, minmax(0, 1fr)); }
+  .panel { margin: 0; display: flex; flex-direction: column; min-height: 0; font-size: ${style.fontSize}pt; line-height: 1.3; }
+  .frame { flex: 1; min-height: 0; background: #f3f4f6; border: 0.5pt solid #d1d5db; }
+  .frame img { display: block; width: 100%; height: 100%; object-fit: contain; }
+  figcaption p, blockquote { margin: 1mm 0 0; overflow: hidden; display: -webkit-box; -webkit-box-orient: vertical; }
+  .label { font-weight: bold; -webkit-line-clamp: 1; }
+  .heading { color: #4b5563; -webkit-line-clamp: 1; }
+  .prompt { -webkit-line-clamp: ${style.promptLines}; }
+  .excerpt { font-style: italic; color: #374151; -webkit-line-clamp: ${style.excerptLines}; }
+  footer { text-align: center; font-size: 9pt; color: #6b7280; margin-top: 3mm; }
+  @media print {
+    body { background: none; }
+    .page { margin: 0; box-shadow: none; break-after: page; }
+    .page:last-child { break-after: auto; }
+  }
+</style>
+</head>
+<body>${pageHtml}
+</body>
+</html>
+`;
+}
+
+// --- PDF ---
+
+export function buildStoryboardPdf(
+  title: string,
+  panels: StoryboardPanel[],
+  images: (StoryboardImage | null)[],
+  settings: StoryboardSettings,
+  date = new Date()
+): Blob {
+  const { columns, rows } = storyboardGrid(settings);
+  const page = pageSize(settings);
+  const width = page.width * POINTS_PER_MM;
+  const height = page.height * POINTS_PER_MM;
+  const margin = 12 * POINTS_PER_MM;
+  const gap = 5 * POINTS_PER_MM;
+  const gridTop = margin + 32;
+  const gridBottom = height - margin - 8;
+  const cellWidth = (width - 2 * margin - gap * (columns - 1)) / columns;
+  const cellHeight = (gridBottom - gridTop - gap * (rows - 1)) / rows;
+  const style = textStyle(rows);
+  const lineHeight = style.fontSize * 1.3;
+  // Every panel reserves the same caption space so the frames line up across a row.
+  const captionLines = 2 + style.promptLines + (settings.includeExcerpt ? style.excerptLines : 0);
+  const frameHeight = Math.max(cellHeight - captionLines * lineHeight - 4, cellHeight / 3);
+
+  const pdf = createPdfDocument();
+  const imageIds = images.map(image => image ? pdf.addImage(image.jpeg, image.width, image.height) : null);
+  const pages = paginate(panels.map((panel, i) => ({ panel, imageId: imageIds[i] ?? null, image: images[i] ?? null })), settings.panelsPerPage);
+  const dateText = formatStoryboardDate(date);
+
+  pages.forEach((items, p) => {
+    const out = pdf.addPage(width, height);
+    const titleLine = wrapText(title, 16, 'bold', width - 2 * margin - textWidth(dateText, 10) - 20, 1)[0] ?? '';
+    out.text(titleLine, margin, margin + 14, 16, 'bold');
+    out.text(dateText, width - margin - textWidth(dateText, 10), margin + 14, 10, 'regular', 0.3);
+    out.rect(margin, margin + 22, width - 2 * margin, 0.5, { fill: 0.6 });
+    const footer = `Page ${p + 1} of ${pages.length}`;
+    out.text(footer, (width - textWidth(footer, 9)) / 2, height - margin + 12, 9, 'regular', 0.4);
+
+    items.forEach(({ panel, imageId, image }, i) => {
+      const x = margin + (i % columns) * (cellWidth + gap);
+      const top = gridTop + Math.floor(i / columns) * (cellHeight + gap);
+      out.rect(x, top, cellWidth, frameHeight, { fill: 0.95, stroke: 0.8 });
+      if (image && imageId !== null) {
+        const scale = Math.min(cellWidth / image.width, frameHeight / image.height);
+        const w = image.width * scale;
+        const h = image.height * scale;
+        out.image(imageId, x + (cellWidth - w) / 2, top + (frameHeight - h) / 2, w, h);
+      } else {
+        const note = 'Image not available';
+        out.text(note, x + (cellWidth - textWidth(note, style.fontSize)) / 2, top + frameHeight / 2, style.fontSize, 'italic', 0.5);
+      }
+
+      let baseline = top + frameHeight + 4 + style.fontSize;
+      const line = (text: string, font: 'regular' | 'bold' | 'italic', gray: number) => {
+        out.text(text, x, baseline, style.fontSize, font, gray);
+        baseline += lineHeight;
+      };
+      line(wrapText(panelLabel(panel), style.fontSize, 'bold', cellWidth, 1)[0] ?? '', 'bold', 0);
+      if (panel.heading) line(wrapText(panel.heading, style.fontSize, 'regular', cellWidth, 1)[0] ?? '', 'regular', 0.3);
+      wrapText(panel.prompt, style.fontSize, 'regular', cellWidth, style.promptLines).forEach(text => line(text, 'regular', 0));
+      if (settings.includeExcerpt && panel.excerpt) {
+        wrapText(`“${panel.excerpt}”`, style.fontSize, 'italic', cellWidth, style.excerptLines).forEach(text => line(text, 'italic', 0.25));
+      }
+    });
+  });
+
+  return pdf.toBlob(`${title} – Storyboard`);
+}
+
+// A JPEG copy on white, scaled down to a printable size. Null when the browser cannot decode or
+// read back the image (canvases holding some SVGs, like the offline mock's, are tainted).
+export async function loadStoryboardImage(src: string): Promise<StoryboardImage | null> {
+  try {
+    const image = new Image();
+    image.src = src;
+    await image.decode();
+    const scale = Math.min(1, PDF_IMAGE_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+    if (!blob) return null;
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+  } catch {
+    return null;
+  }
+}
+
+// Images are converted one at a time to keep memory flat on long storyboards.
+export async function exportStoryboardPdf(title: string, panels: StoryboardPanel[], settings: StoryboardSettings): Promise<Blob> {
+  const images: (StoryboardImage | null)[] = [];
+  for (const panel of panels) images.push(await loadStoryboardImage(panel.src));
+  return buildStoryboardPdf(title, panels, images, settings);
+}
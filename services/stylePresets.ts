@@ -0,0 +1,118 @@
+import type { AspectRatio, ReferenceImage, StylePreset } from "../types.ts";
+import { MAX_VARIANTS } from "./jobs.ts";
+import { listImageProviders } from "./providerRegistry.ts";
+
+// Named bundles of image settings that are reused across projects. They belong to the browser,
+// like the price table, and move between browsers as JSON files.
+
+const PRESETS_STORAGE = 'bulk-image-generator:style-presets';
+
+const EXPORT_FORMAT = 'bulk-image-generator/style-presets';
+const EXPORT_VERSION = 1;
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '9:16', '16:9'];
+
+// How many prompts "preview on the first prompts" generates, one image each.
+export const PRESET_PREVIEW_COUNT = 3;
+
+export type PresetSettings = Omit<StylePreset, 'id' | 'name' | 'referenceImage'>;
+
+const text = (value: unknown): string => typeof value === 'string' ? value : '';
+
+// Anything that is not a usable preset becomes null; fields that are merely off get defaults.
+function readPreset(value: any): StylePreset | null {
+  if (!value || typeof value !== 'object' || !text(value.name).trim()) return null;
+  const image = value.referenceImage;
+  const hasImage = image && typeof image === 'object' && text(image.base64) && text(image.type).startsWith('image/');
+  return {
+    id: text(value.id) || crypto.randomUUID(),
+    name: text(value.name).trim(),
+    styleKeywords: text(value.styleKeywords),
+    negativePrompt: text(value.negativePrompt),
+    aspectRatio: ASPECT_RATIOS.includes(value.aspectRatio) ? value.aspectRatio : '1:1',
+    imageProviderId: text(value.imageProviderId),
+    imageModel: text(value.imageModel),
+    variantCount: Math.min(MAX_VARIANTS, Math.max(1, Math.floor(Number(value.variantCount) || 1))),
+    referenceImage: hasImage ? { name: text(image.name) || 'reference', type: image.type, base64: image.base64 } : null,
+  };
+}
+
+export function loadStylePresets(): StylePreset[] {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(PRESETS_STORAGE);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.map(readPreset).filter((preset): preset is StylePreset => preset !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveStylePresets(presets: StylePreset[]) {
+  try {
+    localStorage.setItem(PRESETS_STORAGE, JSON.stringify(presets));
+  } catch (error: any) {
+    if (error?.name === 'QuotaExceededError') {
+      throw new Error("The presets no longer fit in this browser's storage. Use smaller reference images or delete some presets.");
+    }
+    throw error;
+  }
+}
+
+export const createStylePreset = (name: string, settings: PresetSettings, referenceImage: ReferenceImage | null): StylePreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  ...settings,
+  referenceImage: referenceImage
+    ? { name: referenceImage.file.name, type: referenceImage.file.type, base64: referenceImage.base64 }
+    : null,
+});
+
+export function presetReferenceImage(preset: StylePreset): ReferenceImage | null {
+  const image = preset.referenceImage;
+  if (!image) return null;
+  const bytes = Uint8Array.from(atob(image.base64), c => c.charCodeAt(0));
+  return { file: new File([bytes], image.name, { type: image.type }), base64: image.base64 };
+}
+
+// The preset's provider and model as they exist in this build; an unknown model falls back to
+// the provider's first one. Null when the provider itself is not available.
+export function presetModel(preset: StylePreset): { providerId: string; modelId: string } | null {
+  const provider = listImageProviders().find(p => p.id === preset.imageProviderId);
+  if (!provider) return null;
+  const model = provider.models.find(m => m.id === preset.imageModel) ?? provider.models[0];
+  return { providerId: provider.id, modelId: model.id };
+}
+
+export const exportStylePresets = (presets: StylePreset[]): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2);
+
+// Imported presets are added to the existing ones. A preset whose id is already taken gets a new
+// one, so importing the same file twice keeps both copies rather than overwriting edits.
+export function importStylePresets(fileName: string, json: string, existing: StylePreset[]): StylePreset[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON.`);
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.format === EXPORT_FORMAT ? parsed.presets : null;
+  if (!Array.isArray(list)) {
+    throw new Error(`${fileName} is not a style preset export.`);
+  }
+  if (!Array.isArray(parsed) && parsed.version > EXPORT_VERSION) {
+    throw new Error(`${fileName} was exported by a newer version of the app.`);
+  }
+  const presets = list.map(readPreset).filter((preset): preset is StylePreset => preset !== null);
+  if (presets.length === 0) {
+    throw new Error(`${fileName} has no presets.`);
+  }
+  const ids = new Set(existing.map(preset => preset.id));
+  return [
+    ...existing,
+    ...presets.map(preset => {
+      const id = ids.has(preset.id) ? crypto.randomUUID() : preset.id;
+      ids.add(id);
+      return { ...preset, id };
+    }),
+  ];
+}
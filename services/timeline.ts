@@ -0,0 +1,184 @@
+import type { AspectRatio, ImageJob, TimelineSettings } from "../types.ts";
+import { targetDimensions } from "./postProcess.ts";
+import { countWords } from "./scriptChunker.ts";
+import { stripCueTimings } from "./scriptImport.ts";
+
+// Durations for narrated videos, and timelines that cut the exported images to them: an ffmpeg
+// concat list, a CMX3600 EDL and an FCPXML project. Everything is counted in whole frames so the
+// three formats and the slideshow preview agree.
+
+export const DEFAULT_TIMELINE: TimelineSettings = {
+  mode: 'fixed',
+  secondsPerImage: 4,
+  wordsPerMinute: 150,
+  frameRate: 25,
+  kenBurns: true,
+};
+
+export const FRAME_RATES = [24, 25, 30];
+
+// Frame size of the timelines: Full HD along the long side.
+export const videoSize = (aspectRatio: AspectRatio) => targetDimensions(aspectRatio, 1920);
+
+// Jobs can carry their own aspect ratio, so the frame takes the one most images share and the
+// fewest end up letterboxed. A tie goes to the fallback, then to the ratio that comes first.
+export function timelineAspectRatio(ratios: AspectRatio[], fallback: AspectRatio): AspectRatio {
+  const counts = new Map<AspectRatio, number>();
+  ratios.forEach(ratio => counts.set(ratio, (counts.get(ratio) ?? 0) + 1));
+  let best = fallback;
+  counts.forEach((count, ratio) => {
+    if (count > (counts.get(best) ?? 0)) best = ratio;
+  });
+  return best;
+}
+
+// Shortest duration worked out from a word count, so a one-word line still registers.
+const MIN_WORD_SECONDS = 1;
+
+// Editors expect the record side of an EDL to start at one hour.
+const EDL_RECORD_START = 3600;
+
+export interface FrameSpan {
+  // Whole frames from the start of the timeline.
+  start: number;
+  frames: number;
+}
+
+export interface TimelineClip extends FrameSpan {
+  fileName: string;
+}
+
+// Seconds on screen for each job, in order. A duration set on the job always wins. In subtitle
+// mode an image runs until the next job's cue starts, so cuts land on the narration across pauses,
+// and the first image also covers any lead-in before its cue.
+export function jobDurations(jobs: ImageJob[], settings: TimelineSettings): number[] {
+  return jobs.map((job, i) => {
+    if (job.duration !== undefined && job.duration > 0) return job.duration;
+    const fallback = settings.secondsPerImage;
+    if (settings.mode === 'words') {
+      const words = countWords(job.scene?.sourceExcerpt ? stripCueTimings(job.scene.sourceExcerpt) : '');
+      return words > 0 ? Math.max(MIN_WORD_SECONDS, (words / Math.max(1, settings.wordsPerMinute)) * 60) : fallback;
+    }
+    if (settings.mode === 'subtitles') {
+      const range = job.scene?.timeRange;
+      if (!range) return fallback;
+      const start = i === 0 ? 0 : range.start;
+      const next = jobs[i + 1]?.scene?.timeRange?.start;
+      const end = next !== undefined && next > start ? next : range.end;
+      return end > start ? end - start : fallback;
+    }
+    return fallback;
+  });
+}
+
+// Boundaries are rounded from the running total, so rounding never adds up to drift.
+export function frameSpans(durations: number[], frameRate: number): FrameSpan[] {
+  let seconds = 0;
+  let start = 0;
+  return durations.map(duration => {
+    seconds += duration;
+    const end = Math.max(start + 1, Math.round(seconds * frameRate));
+    const span = { start, frames: end - start };
+    start = end;
+    return span;
+  });
+}
+
+export const timelineFrames = (spans: FrameSpan[]): number =>
+  spans.length > 0 ? spans[spans.length - 1].start + spans[spans.length - 1].frames : 0;
+
+// m:ss, or h:mm:ss past an hour.
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(total % 60)}` : `${m}:${pad(total % 60)}`;
+}
+
+// Non-drop-frame HH:MM:SS:FF.
+function timecode(frames: number, frameRate: number): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const seconds = Math.floor(frames / frameRate);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frames % frameRate)}`;
+}
+
+const frameSeconds = (frames: number, frameRate: number) => String(Number((frames / frameRate).toFixed(6)));
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// --- ffmpeg ---
+
+// For the concat demuxer. The last file is listed twice because ffmpeg ignores the final duration.
+export function ffmpegConcatList(clips: TimelineClip[], frameRate: number, size: { width: number; height: number }): string {
+  const quote = (fileName: string) => `'${fileName.replace(/'/g, "'\\''")}'`;
+  const { width, height } = size;
+  const lines = [
+    'ffconcat version 1.0',
+    `# ffmpeg -f concat -safe 0 -i timeline.ffconcat -vf "scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,fps=${frameRate},format=yuv420p" -c:v libx264 slideshow.mp4`,
+  ];
+  clips.forEach(clip => lines.push(`file ${quote(clip.fileName)}`, `duration ${frameSeconds(clip.frames, frameRate)}`));
+  if (clips.length > 0) lines.push(`file ${quote(clips[clips.length - 1].fileName)}`);
+  return lines.join('\n') + '\n';
+}
+
+// --- CMX3600 EDL ---
+
+// Plain ASCII only; EDL readers choke on anything else.
+const edlText = (text: string, maxLength: number) =>
+  text.normalize('NFKD').replace(/[^\x20-\x7e]/g, '').replace(/ {2,}/g, ' ').slice(0, maxLength);
+
+export function cmx3600Edl(title: string, clips: TimelineClip[], frameRate: number): string {
+  const recordStart = EDL_RECORD_START * frameRate;
+  const lines = [`TITLE: ${edlText(title, 70) || 'Untitled'}`, 'FCM: NON-DROP FRAME', ''];
+  clips.forEach((clip, i) => {
+    const event = String(i + 1).padStart(3, '0');
+    const source = `${timecode(0, frameRate)} ${timecode(clip.frames, frameRate)}`;
+    const record = `${timecode(recordStart + clip.start, frameRate)} ${timecode(recordStart + clip.start + clip.frames, frameRate)}`;
+    lines.push(
+      `${event}  ${'AX'.padEnd(8)} V     C        ${source} ${record}`,
+      `* FROM CLIP NAME: ${edlText(clip.fileName, 120)}`,
+      `* SOURCE FILE: ${edlText(clip.fileName, 120)}`,
+      ''
+    );
+  });
+  return lines.join('\r\n');
+}
+
+// --- FCPXML ---
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+// Stills are assets without a duration, placed on the primary storyline. Files are referenced
+// relative to the timeline, which sits next to them in the export.
+export function fcpxmlTimeline(title: string, clips: TimelineClip[], frameRate: number, size: { width: number; height: number }): string {
+  const time = (frames: number) => frames === 0 ? '0s' : `${frames}/${frameRate}s`;
+  const assets = clips.map((clip, i) =>
+    `    <asset id="r${i + 2}" name="${escapeXml(baseName(clip.fileName))}" start="0s" duration="0s" hasVideo="1">\n`
+    + `      <media-rep kind="original-media" src="${escapeXml(encodeURI(clip.fileName))}"/>\n`
+    + `    </asset>`);
+  const spine = clips.map((clip, i) =>
+    `            <video ref="r${i + 2}" name="${escapeXml(baseName(clip.fileName))}" offset="${time(clip.start)}" start="0s" duration="${time(clip.frames)}"/>`);
+  const name = escapeXml(title || 'Untitled');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="1/${frameRate}s" width="${size.width}" height="${size.height}"/>
+${assets.join('\n')}
+  </resources>
+  <library>
+    <event name="${name}">
+      <project name="${name}">
+        <sequence format="r1" duration="${time(timelineFrames(clips))}" tcStart="0s" tcFormat="NDF">
+          <spine>
+${spine.join('\n')}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+}
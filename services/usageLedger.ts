@@ -0,0 +1,184 @@
+import type { BudgetCap, ModelPrice, PriceTable, RetryPolicy, TokenUsage, UsageEntry, UsageKind, UsageReporter } from "../types.ts";
+import { isAbortError } from "./abortUtils.ts";
+import { withRetry } from "./retryPolicy.ts";
+import type { GenerationError } from "./generationErrors.ts";
+
+// Records what each provider call used and estimates what it cost. Entries keep raw counts
+// only, so editing the price table re-prices the whole history.
+
+const PRICES_STORAGE = 'bulk-image-generator:prices';
+
+// Approximate list prices; users edit them to match their plan. Models not listed cost nothing.
+export const DEFAULT_PRICES: PriceTable = {
+  'imagen-4.0-generate-001': { perImage: 0.04, inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+  // Billed per output token, which works out at about this much per image.
+  'gemini-2.5-flash-image': { perImage: 0.039, inputPerMillionTokens: 0.3, outputPerMillionTokens: 0 },
+  'gemini-2.5-flash': { perImage: 0, inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+  'gemini-2.5-pro': { perImage: 0, inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+  'gpt-image-1': { perImage: 0, inputPerMillionTokens: 5, outputPerMillionTokens: 40 },
+  'dall-e-3': { perImage: 0.04, inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+  'gpt-4o-mini': { perImage: 0, inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  'gpt-4o': { perImage: 0, inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 },
+};
+
+const FREE: ModelPrice = { perImage: 0, inputPerMillionTokens: 0, outputPerMillionTokens: 0 };
+
+export const priceFor = (prices: PriceTable, model: string): ModelPrice => prices[model] ?? FREE;
+
+// The price table belongs to the browser rather than a project, like the API key.
+export function loadPriceTable(): PriceTable {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(PRICES_STORAGE);
+    return { ...DEFAULT_PRICES, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+export const savePriceTable = (prices: PriceTable) => localStorage.setItem(PRICES_STORAGE, JSON.stringify(prices));
+
+export function estimateCost(entry: Pick<UsageEntry, 'model' | 'images' | 'inputTokens' | 'outputTokens'>, prices: PriceTable): number {
+  const price = priceFor(prices, entry.model);
+  return entry.images * price.perImage
+    + (entry.inputTokens * price.inputPerMillionTokens + entry.outputTokens * price.outputPerMillionTokens) / 1_000_000;
+}
+
+// Single images cost a few cents, so small amounts keep a third decimal.
+export const formatCost = (cost: number): string => `$${cost > 0 && cost < 0.1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  retries: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  providerId: string;
+  model: string;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byModel: ModelUsage[];
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, retries: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry, prices: PriceTable) => {
+  totals.calls++;
+  if (entry.failed) totals.failures++;
+  totals.retries += entry.retries;
+  totals.images += entry.images;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cost += estimateCost(entry, prices);
+};
+
+export function summarizeUsage(entries: UsageEntry[], prices: PriceTable): UsageSummary {
+  const total = emptyTotals();
+  const byModel = new Map<string, ModelUsage>();
+  entries.forEach(entry => {
+    addEntry(total, entry, prices);
+    const key = `${entry.providerId}/${entry.model}`;
+    if (!byModel.has(key)) byModel.set(key, { providerId: entry.providerId, model: entry.model, ...emptyTotals() });
+    addEntry(byModel.get(key)!, entry, prices);
+  });
+  return { total, byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost || b.calls - a.calls) };
+}
+
+export const entriesForBudget = (entries: UsageEntry[], budget: BudgetCap, runId: string | null): UsageEntry[] =>
+  budget.scope === 'project' ? entries : entries.filter(entry => entry.runId === runId);
+
+export interface PlannedUsage {
+  images: number;
+  cost: number;
+}
+
+// Expected cost of the next images from a model. Token-billed image models have no fixed price,
+// so their average so far stands in.
+export function planImageUsage(model: string, images: number, prices: PriceTable, history: UsageEntry[]): PlannedUsage {
+  const perImage = priceFor(prices, model).perImage;
+  if (perImage > 0) return { images, cost: images * perImage };
+  const past = history.filter(entry => entry.model === model && entry.images > 0);
+  const pastImages = past.reduce((sum, entry) => sum + entry.images, 0);
+  const pastCost = past.reduce((sum, entry) => sum + estimateCost(entry, prices), 0);
+  return { images, cost: pastImages > 0 ? (pastCost / pastImages) * images : 0 };
+}
+
+// Reason to stop before the planned work, or null when it fits under the cap.
+export function checkBudget(budget: BudgetCap, spent: PlannedUsage, planned: PlannedUsage): string | null {
+  const scope = budget.scope === 'run' ? 'this run' : 'this project';
+  if (budget.maxImages > 0 && spent.images + planned.images > budget.maxImages) {
+    return `Image budget reached: ${scope} has used ${spent.images} of ${budget.maxImages} images and the next job needs ${planned.images}.`;
+  }
+  if (budget.maxCost > 0 && spent.cost + planned.cost > budget.maxCost) {
+    return `Cost budget reached: ${scope} has spent about ${formatCost(spent.cost)} of ${formatCost(budget.maxCost)} and the next job would add ${formatCost(planned.cost)}.`;
+  }
+  return null;
+}
+
+export interface UsageMeter {
+  runId: string;
+  jobId?: string;
+  record(entry: UsageEntry): void;
+}
+
+export interface MeteredCall {
+  kind: UsageKind;
+  providerId: string;
+  model: string;
+}
+
+// withRetry that also writes one ledger entry for the call, with the tokens of every attempt
+// and the number of retries. Calls cancelled before using anything are not recorded.
+export async function withMeteredRetry<T>(
+  run: (onUsage: UsageReporter) => Promise<T>,
+  policy: RetryPolicy,
+  call: MeteredCall,
+  options: {
+    meter?: UsageMeter;
+    signal?: AbortSignal;
+    onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+    countImages?: (result: T) => number;
+  } = {}
+): Promise<T> {
+  const tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let retries = 0;
+  const onUsage: UsageReporter = usage => {
+    tokens.inputTokens += usage.inputTokens;
+    tokens.outputTokens += usage.outputTokens;
+  };
+  const record = (images: number, failed: boolean) => options.meter?.record({
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    runId: options.meter.runId,
+    jobId: options.meter.jobId,
+    ...call,
+    ...tokens,
+    images,
+    retries,
+    failed,
+  });
+
+  try {
+    const result = await withRetry(() => run(onUsage), policy, {
+      signal: options.signal,
+      onRetry: (error, attempt, delayMs) => {
+        retries++;
+        options.onRetry?.(error, attempt, delayMs);
+      },
+    });
+    record(options.countImages?.(result) ?? 0, false);
+    return result;
+  } catch (error) {
+    const cancelled = options.signal?.aborted || isAbortError(error);
+    if (!cancelled || retries > 0 || tokens.inputTokens + tokens.outputTokens > 0) {
+      record(0, true);
+    }
+    throw error;
+  }
+}
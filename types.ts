@@ -1,6 +1,116 @@
 
 export type AspectRatio = '1:1' | '9:16' | '16:9';
 
+export interface SceneMetadata {
+  sceneNumber: number;
+  sourceExcerpt: string;
+  // Character offsets of the excerpt in the script, when it could be located.
+  sourceStart?: number;
+  sourceEnd?: number;
+  setting: string;
+  characters: string[];
+  shotType: string;
+  // Set when the excerpt falls under a screenplay scene heading or timestamped subtitle cues.
+  sourceHeading?: string;
+  timeRange?: { start: number; end: number };
+}
+
+export interface ScenePrompt {
+  prompt: string;
+  scene: SceneMetadata;
+}
+
+export type ErrorCategory =
+  | 'rate-limited'
+  | 'quota-exhausted'
+  | 'server-error'
+  | 'network'
+  | 'safety-blocked'
+  | 'invalid-request'
+  | 'auth'
+  | 'missing-api-key'
+  | 'unknown';
+
+export type ImageJobStatus = 'pending' | 'queued' | 'generating' | 'success' | 'failed' | 'cancelled';
+
+export interface ImageJob {
+  id: string;
+  prompt: string;
+  status: ImageJobStatus;
+  // The chosen ("hero") candidate; exports use this one unless asked for all variants.
+  src?: string;
+  // Every candidate from the last run, including src, when more than one was requested.
+  variants?: string[];
+  // Overrides the run's variant count for this job.
+  variantCount?: number;
+  error?: string;
+  errorCategory?: ErrorCategory;
+  providerId?: string;
+  model?: string;
+  styleKeywords?: string;
+  negativePrompt?: string;
+  aspectRatio?: AspectRatio;
+  // SHA-256 (hex) of each reference image sent on the last run.
+  referenceHashes?: string[];
+  // When the last run finished.
+  generatedAt?: number;
+  // Seconds on screen in video exports, set by hand; otherwise from the timeline settings.
+  duration?: number;
+  // Set when the prompt changed after the image was generated.
+  stale?: boolean;
+  scene?: SceneMetadata;
+  // Manual choice of character references; undefined means match them from the prompt and scene.
+  characterIds?: string[];
+  // Characters whose references were attached on the last run.
+  usedCharacterIds?: string[];
+  // Every image the job has had since its first edit, oldest first. src is the current one.
+  versions?: ImageVersion[];
+  // Set per row in template mode; they win over the run's settings.
+  overrides?: JobOverrides;
+}
+
+export interface JobOverrides {
+  styleKeywords?: string;
+  negativePrompt?: string;
+  aspectRatio?: AspectRatio;
+  // File name pattern for exports, in place of the project's.
+  fileName?: string;
+}
+
+export interface ImageVersion {
+  id: string;
+  src: string;
+  createdAt: number;
+  // The edit that produced this version; unset for images generated from the prompt.
+  instruction?: string;
+  masked?: boolean;
+  // The version the edit started from.
+  parentId?: string;
+  providerId?: string;
+  model?: string;
+}
+
+// How an exported image was made, embedded in the file so it can be restored later.
+export interface GenerationMetadata {
+  version: number;
+  prompt: string;
+  styleKeywords: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  providerId: string;
+  model: string;
+  // SHA-256 (hex) of each reference image that was sent.
+  referenceHashes: string[];
+  // 1-based position among the candidates of the run.
+  variantIndex: number;
+  variantCount: number;
+  // ISO 8601.
+  generatedAt: string;
+  scene?: SceneMetadata;
+  // Edit instructions applied after generation, oldest first.
+  edits?: string[];
+}
+
 export interface GeneratedImage {
   prompt: string;
   src: string;
@@ -9,4 +119,263 @@ export interface GeneratedImage {
 export interface ReferenceImage {
   file: File;
   base64: string;
-}
\ No newline at end of file
+}
+
+export interface CharacterEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  description: string;
+  images: ReferenceImage[];
+}
+
+export interface CharacterNote {
+  name: string;
+  description: string;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest single wait. A server asking for more than this is treated as a final answer.
+  maxDelayMs: number;
+  // Fraction of each delay that is randomised, so parallel workers do not retry in lockstep.
+  jitter: number;
+}
+
+// Token counts reported by a provider for one request.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageReporter = (usage: TokenUsage) => void;
+
+export type UsageKind = 'prompts' | 'image' | 'rewrite' | 'edit';
+
+// One logical provider call in the usage ledger, retries included.
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  // A run starts when work is queued on an idle queue or prompts are generated.
+  runId: string;
+  kind: UsageKind;
+  providerId: string;
+  model: string;
+  jobId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  retries: number;
+  failed: boolean;
+}
+
+// Prices in USD; whichever parts a model is billed by.
+export interface ModelPrice {
+  perImage: number;
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+// Keyed by model id.
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface BudgetCap {
+  scope: 'run' | 'project';
+  // 0 means no limit.
+  maxImages: number;
+  maxCost: number;
+}
+
+export type CropMode = 'none' | 'center' | 'smart';
+
+// 'original' keeps PNG, JPEG and WebP as they are; anything else becomes PNG.
+export type OutputFormat = 'original' | 'png' | 'jpeg' | 'webp';
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Applied in the browser to every successful image. The generated originals are kept.
+export interface PostProcessSettings {
+  enabled: boolean;
+  // Crops to the job's aspect ratio; 'smart' keeps the most detailed part of the frame.
+  crop: CropMode;
+  // Longest side of the output in pixels; 0 keeps the size.
+  longEdge: number;
+  format: OutputFormat;
+  // 1-100, for JPEG and WebP.
+  quality: number;
+  // Text stamped in a corner; empty for none.
+  watermark: string;
+  watermarkCorner: OverlayCorner;
+  sceneNumber: boolean;
+  // Burns in the source passage, e.g. the subtitle line.
+  caption: boolean;
+}
+
+// Layout of the storyboard document export.
+export interface StoryboardSettings {
+  // 1, 2, 3, 4, 6 or 9.
+  panelsPerPage: number;
+  pageSize: 'a4' | 'letter';
+  orientation: 'landscape' | 'portrait';
+  // Shows the script excerpt or dialogue under each prompt.
+  includeExcerpt: boolean;
+}
+
+// How long each image stays on screen in video exports and the slideshow preview.
+export interface TimelineSettings {
+  // Where durations come from for jobs that have none of their own.
+  mode: 'fixed' | 'words' | 'subtitles';
+  // Per image in fixed mode, and the fallback for jobs without an excerpt or subtitle cue.
+  secondsPerImage: number;
+  // Narration speed for the word-count mode.
+  wordsPerMinute: number;
+  // 24, 25 or 30; timelines are cut on whole frames.
+  frameRate: number;
+  // Slow pan and zoom in the slideshow preview.
+  kenBurns: boolean;
+}
+
+// How many prompts to generate for a script.
+export interface PromptDensity {
+  mode: 'auto' | 'count' | 'words' | 'seconds';
+  count: number;
+  wordsPerImage: number;
+  // One image per this many seconds of narration read at wordsPerMinute.
+  secondsPerImage: number;
+  wordsPerMinute: number;
+}
+
+export interface BatchDataset {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Template mode: a prompt template with {placeholders}, a dataset and variables to expand over.
+export interface BatchSettings {
+  template: string;
+  // One per line, "name: value, value".
+  variables: string;
+  dataset: BatchDataset | null;
+}
+
+export interface ProjectSettings {
+  styleKeywords: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  promptProviderId: string;
+  promptModel: string;
+  imageProviderId: string;
+  imageModel: string;
+  concurrency: number;
+  requestsPerMinute: number;
+  fileNamePattern: string;
+  variantCount: number;
+  retryPolicy: RetryPolicy;
+  budget: BudgetCap;
+  postProcess: PostProcessSettings;
+  density: PromptDensity;
+  inputMode: 'script' | 'template';
+  batch: BatchSettings;
+  storyboard: StoryboardSettings;
+  timeline: TimelineSettings;
+}
+
+// A named look that can be applied to any project. Kept in the browser, not in a project.
+export interface StylePreset {
+  id: string;
+  name: string;
+  styleKeywords: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  imageProviderId: string;
+  imageModel: string;
+  variantCount: number;
+  // Stored as text so presets survive in localStorage and JSON files.
+  referenceImage: { name: string; type: string; base64: string } | null;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  jobCount: number;
+}
+
+export interface Project extends ProjectSummary {
+  script: string;
+  settings: ProjectSettings;
+  jobs: ImageJob[];
+  referenceImage: ReferenceImage | null;
+  characters: CharacterEntry[];
+  usage: UsageEntry[];
+}
+
+export interface ModelCapabilities {
+  referenceImages: boolean;
+  aspectRatios: AspectRatio[];
+  // False when the ratio can only be hinted at in the prompt text.
+  nativeAspectRatio: boolean;
+  maxVariants: number;
+  // Can change an existing image from a text instruction and an optional mask.
+  editing: boolean;
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+  capabilities: ModelCapabilities;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  styleKeywords: string;
+  // Things to keep out of the image.
+  negativePrompt?: string;
+  referenceImages: ReferenceImage[];
+  characters: CharacterNote[];
+  aspectRatio: AspectRatio;
+  model: string;
+  // Number of candidates to return; never more than the model's maxVariants.
+  variants: number;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+}
+
+export interface ImageEditRequest {
+  // Data URL of the image to change.
+  image: string;
+  instruction: string;
+  // PNG data URL the size of the image: white where the image may change, black where it must not.
+  mask?: string;
+  aspectRatio: AspectRatio;
+  model: string;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  models: ProviderModel[];
+  generateImage(request: ImageGenerationRequest): Promise<string[]>;
+  // Only called with models whose capabilities include editing.
+  editImage?(request: ImageEditRequest): Promise<string>;
+}
+
+export interface PromptGenerationOptions {
+  // How many scenes to ask for; the model decides when unset.
+  targetCount?: number;
+  onUsage?: UsageReporter;
+}
+
+export interface PromptProvider {
+  id: string;
+  label: string;
+  models: { id: string; label: string }[];
+  generatePrompts(script: string, model: string, options?: PromptGenerationOptions): Promise<ScenePrompt[]>;
+  // Rephrases an image prompt that a safety filter rejected.
+  rewritePromptSafely(prompt: string, model: string, onUsage?: UsageReporter): Promise<string>;
+}
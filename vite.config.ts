@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // `npm run proxy` serves the Gemini proxy locally; on Netlify it is a function.
+          '/api': env.PROXY_DEV_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // No API keys here: GEMINI_API_KEY is read only by the proxy server, and the OpenAI key is entered in the browser.
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.SD_API_URL': JSON.stringify(env.SD_API_URL)
       },
       resolve: {
         alias: {